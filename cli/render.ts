@@ -0,0 +1,134 @@
+import * as d3 from 'd3';
+import { JSDOM } from 'jsdom';
+import { Resvg } from '@resvg/resvg-js';
+
+import { Transcriptome } from 'sparrowgenomelib';
+
+import { SplicePlot } from '../src/components/SplicePlot/SplicePlot';
+import { SignalTrack } from '../src/utils/signalTracks';
+import { SessionSettings } from '../src/utils/session';
+import { ReferenceSequences } from '../src/utils/fasta';
+import { JunctionFile, junctionsFromTranscriptome } from '../src/utils/junctions';
+import { SiteNames } from '../src/utils/siteLabels';
+import { discoverSites } from '../src/utils/siteLists';
+import { buildTheme, palettes, sampleGroupColors } from '../src/utils/themes';
+import { collectSampleNames, groupSamples } from '../src/utils/sampleGroups';
+import { SampleTimepoint, sampleTimepoints } from '../src/utils/timepoints';
+import { testSignalTracks } from '../src/utils/siteTests';
+import { signalTrackLines, summarizeSignalTracks } from '../src/utils/signalSummary';
+import { filterBedBySeqid, filterGtfBySeqid, parseSequenceRegions } from '../src/utils/sequences';
+
+export interface RenderInputs {
+    gtf: { fileName: string, text: string };
+    reference: ReferenceSequences | null; // FASTA sequences by seqid
+    junctions: JunctionFile | null; // junction file, drawn instead of the annotated introns when selected
+    signalTracks: SignalTrack[];
+    sampleSheet: Map<string, string>;
+    timepointSheet: Map<string, SampleTimepoint>;
+    siteNames: SiteNames;
+    settings: SessionSettings;
+}
+
+// jsdom has no layout engine, so text is measured with an average glyph width
+function installTextMetrics(window: JSDOM["window"]): void {
+    const prototype = window.SVGElement.prototype as unknown as {
+        getBBox?: () => DOMRect;
+        getComputedTextLength?: () => number;
+    };
+    const textWidth = (element: Element) => {
+        const fontSize = parseFloat(element.getAttribute("font-size") ?? (element as HTMLElement).style?.fontSize ?? "") || 10;
+        return (element.textContent ?? "").length * fontSize * 0.6;
+    };
+    prototype.getComputedTextLength ??= function (this: Element) {
+        return textWidth(this);
+    };
+    prototype.getBBox ??= function (this: Element) {
+        const fontSize = parseFloat((this as HTMLElement).style?.fontSize ?? "") || 10;
+        return { x: 0, y: -fontSize, width: textWidth(this), height: fontSize } as DOMRect;
+    };
+}
+
+// Draw the plot exactly as SplicePlotWrapper does and return the serialized SVG
+export async function renderSvg(inputs: RenderInputs): Promise<string> {
+    const { settings } = inputs;
+    const regions = parseSequenceRegions(inputs.gtf.text);
+    if (regions.length === 0) {
+        throw new Error(`${inputs.gtf.fileName}: no sequences found in the GTF file`);
+    }
+    const seqid = settings.selectedSeqid !== "" ? settings.selectedSeqid : regions[0].seqid;
+    if (!regions.some(region => region.seqid === seqid)) {
+        throw new Error(`Sequence ${seqid} is not annotated in ${inputs.gtf.fileName}`);
+    }
+
+    const transcriptome = await Transcriptome.create(new File([filterGtfBySeqid(inputs.gtf.text, seqid)], inputs.gtf.fileName))
+        .catch((error: Error) => {
+            throw new Error(`${inputs.gtf.fileName}: unable to parse the GTF file. ${error.message ?? ""}`);
+        });
+    const sequenceTracks = inputs.signalTracks.map(track => ({
+        ...track,
+        bedFile: { ...track.bedFile, data: filterBedBySeqid(track.bedFile.data, seqid) },
+    }));
+    const signalSummaries = summarizeSignalTracks(signalTrackLines(sequenceTracks.map(track => ({ id: track.id, data: track.bedFile.data }))));
+    const signalTracks = sequenceTracks.map(track => track.discoverThreshold === null ? track : {
+        ...track,
+        discoveredPositions: discoverSites(signalSummaries.get(track.id)!, transcriptome, track.discoverThreshold),
+    });
+    const junctions = settings.junctionSource === "file"
+        ? inputs.junctions?.junctions.filter(junction => junction.seqid === seqid) ?? []
+        : junctionsFromTranscriptome(transcriptome, seqid);
+    const names = collectSampleNames(...signalTracks.map(track => track.bedFile.data));
+    const sampleGroups = groupSamples(names, settings.sampleGroupMode, settings.sampleGroupPattern, inputs.sampleSheet,
+        sampleGroupColors(palettes[settings.palette]));
+    const timepoints = sampleTimepoints(names, settings.timepointMode, settings.timepointPattern, inputs.timepointSheet,
+        sampleGroupColors(palettes[settings.palette]));
+
+    const dom = new JSDOM("<!DOCTYPE html><html><body></body></html>");
+    installTextMetrics(dom.window);
+    // d3 and the sparrowgenomelib plots create elements through the global document
+    Object.assign(globalThis, { window: dom.window, document: dom.window.document });
+
+    const svgElement = dom.window.document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    dom.window.document.body.appendChild(svgElement);
+    const svg = d3.select(svgElement as SVGSVGElement)
+        .attr("xmlns", "http://www.w3.org/2000/svg")
+        .attr("width", settings.width)
+        .attr("height", settings.height)
+        .attr("preserveAspectRatio", "xMinYMin meet");
+
+    const splicePlot = new SplicePlot(svg, {
+        transcriptome,
+        signalTracks,
+        signalSummaries,
+        seqid,
+        referenceSequence: inputs.reference?.get(seqid) ?? null,
+        junctions,
+        siteNames: inputs.siteNames,
+        theme: buildTheme(settings),
+        zoomWidth: settings.zoomWidth,
+        zoomWindowWidth: settings.zoomWindowWidth,
+        width: settings.width,
+        height: settings.height,
+        fontSize: settings.fontSize,
+        tracks: settings.tracks,
+        sampleGroups,
+        groupDisplay: settings.groupDisplay,
+        timepoints,
+        siteTests: sampleGroups ? testSignalTracks(signalTracks, transcriptome, sampleGroups) : null,
+        transcriptOrientation: settings.transcriptOrientation,
+        viewRange: settings.viewRange,
+    });
+    splicePlot.plot();
+
+    return new dom.window.XMLSerializer().serializeToString(svgElement);
+}
+
+// Rasterize like the PNG download of the web app. The figure draws its own background, white shows only
+// where it leaves gaps.
+export function svgToPng(svgString: string, scale: number): Buffer {
+    const resvg = new Resvg(svgString, {
+        background: "white",
+        fitTo: { mode: "zoom", value: scale },
+        font: { loadSystemFonts: true },
+    });
+    return resvg.render().asPng();
+}
@@ -0,0 +1,486 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { parseSignalFile } from '../src/utils/nucleotideCounts';
+import { parseSampleSheet } from '../src/utils/sampleGroups';
+import { parseRegion } from '../src/utils/region';
+import { InputFileError, formatLineError } from '../src/utils/inputFiles';
+import { parseSequenceRegions, readGtfFile } from '../src/utils/sequences';
+import {
+    Session,
+    defaultSessionSettings,
+    parseSession,
+    restoreJunctions,
+    restoreReference,
+    restoreSignalTracks
+} from '../src/utils/session';
+import { parseFasta } from '../src/utils/fasta';
+import { parseJunctionFile } from '../src/utils/junctions';
+import { parseSiteNames } from '../src/utils/siteLabels';
+import { PaletteName, SiteLineStyle, palettes, siteLineDashes } from '../src/utils/themes';
+import { YDomainMode, YScaleType, yScaleLabels } from '../src/utils/yScales';
+import { parseTimepointSheet } from '../src/utils/timepoints';
+import { CompareDisplay } from '../src/utils/comparison';
+import { formatIssue, validateInputs } from '../src/utils/validation';
+import {
+    SignalAnchor,
+    SignalPlotType,
+    SignalTrack,
+    createSignalTrack,
+    nextSignalTrackColor,
+    applyPalette,
+    nextSignalTrackId,
+    parsePositionList
+} from '../src/utils/signalTracks';
+import { TrackConfig, builtinTrackIds, defaultTrackLayout, isBuiltinTrack } from '../src/components/SplicePlot/trackLayout';
+import { RenderInputs, renderSvg, svgToPng } from './render';
+
+const usage = `Usage: splicevar render --gtf FILE [options] --out FILE [--out FILE]
+
+Renders the same figure as the web app to SVG and/or PNG (chosen by the --out extension).
+
+Inputs:
+  --gtf FILE                     annotation of the plotted genome
+  --donors FILE                  donor signal (BED or seqid/position/A/C/G/T/N count table)
+  --acceptors FILE               acceptor signal
+  --fasta FILE                   reference sequence, drawn as a strip under the zoom cells
+  --junctions FILE               STAR SJ.out.tab or BED12 junctions, drawn as arcs on the junction track
+  --track SPEC                   additional signal track, repeatable. SPEC is a comma separated list of
+                                 name=NAME,file=FILE[,anchor=donors|acceptors|custom][,positions=P1;P2]
+                                 [,exclude=P1;P2][,discover=MIN_MEAN][,type=box|bar|line][,color=#RRGGBB]
+                                 [,scale=linear|sqrt|log|logit][,domain=shared|site][,ymin=N][,ymax=N]
+                                 positions are added to the annotated sites, excluded sites get no zoom cell and
+                                 discover adds unannotated positions whose mean score reaches MIN_MEAN.
+                                 domain=site scales every zoom cell on its own, ymin/ymax fix the y axis
+  --compare A,B[,mirror|delta]   draw track B (id or name) as a second condition in the zoom cells of track A,
+                                 mirrored below A or as the difference A - B (default mirror). Repeatable
+  --session FILE                 session file saved from the web app; other options override it
+
+Plot options:
+  --zoom-width N                 positions on each side of a site in the zoom cells (default ${defaultSessionSettings.zoomWidth})
+  --zoom-window-width N          width of a zoom cell in pixels (default ${defaultSessionSettings.zoomWindowWidth})
+  --width N                      figure width in pixels (default ${defaultSessionSettings.width})
+  --height N                     figure height in pixels (default ${defaultSessionSettings.height})
+  --font-size N                  font size in pixels (default ${defaultSessionSettings.fontSize})
+  --seqid ID                     sequence to plot (default: first sequence of the GTF)
+  --region [SEQID:]START-END     genomic window shown on the full genome tracks
+  --transcript-orientation       draw minus-strand zoom cells 5' to 3'
+  --layout LIST                  comma separated track order with optional heights, e.g.
+                                 orf:0.1,transcriptome:0.45,donors:0.25. Tracks left out are hidden
+  --junction-source annotation|file
+                                 draw annotated introns or the --junctions file (default: file when given)
+  --site-names FILE              site name mapping (position and name, optionally preceded by the seqid)
+                                 replacing the automatic D1, A1... labels
+  --palette NAME                 track colors: ${Object.keys(palettes).join(", ")} (recolors all signal tracks)
+  --dark                         dark background presentation mode
+  --site-lines dashed|dotted|solid
+                                 line style of the site overlays (default dashed)
+  --group-pattern REGEX          group samples by the first capture group of REGEX
+  --sample-sheet FILE            group samples by a two-column sample/group sheet
+  --group-display box|points     how grouped samples are drawn (default box)
+  --timepoint-pattern REGEX      draw each site over time, reading subject and time from the sample names
+                                 with named groups subject and time or the first two capture groups
+  --timepoint-sheet FILE         draw each site over time, with subjects and times from a sample/subject/time sheet
+  --png-scale N                  resolution multiplier for PNG output (default 1)
+  --force                        render even when the input check finds errors, e.g. positions beyond the
+                                 annotated end or signal on sequences missing from the GTF
+`;
+
+class UsageError extends Error {}
+
+function positiveNumber(option: string, value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+        throw new UsageError(`--${option} expects a positive number, got "${value}"`);
+    }
+    return number;
+}
+
+async function readText(path: string): Promise<string> {
+    try {
+        return await readFile(path, "utf8");
+    } catch (error) {
+        throw new Error(`Unable to read ${path}: ${(error as Error).message}`);
+    }
+}
+
+// input files are passed on as File objects so that compressed files go through the same readers as in the web app
+async function readInputFile(path: string): Promise<File> {
+    try {
+        return new File([await readFile(path)], basename(path));
+    } catch (error) {
+        throw new Error(`Unable to read ${path}: ${(error as Error).message}`);
+    }
+}
+
+async function loadSignalTrack(track: SignalTrack, path: string): Promise<SignalTrack> {
+    try {
+        const { bedFile, composition, facts } = await parseSignalFile(await readInputFile(path));
+        bedFile.data.sort();
+        return { ...track, bedFile: { ...bedFile, status: 1 }, composition, inputFacts: facts };
+    } catch (error) {
+        if (error instanceof InputFileError) {
+            throw error; // already names the file, bad lines are listed by main
+        }
+        throw new Error(`${path}: ${(error as Error).message}`);
+    }
+}
+
+// name=NAME,file=FILE,anchor=custom,positions=1;2,exclude=3,discover=0.5,type=line,color=#RRGGBB,scale=logit,domain=site,ymin=0,ymax=1
+async function parseTrackSpec(spec: string, tracks: SignalTrack[]): Promise<SignalTrack> {
+    const fields = new Map(spec.split(",").map(field => {
+        const [key, ...value] = field.split("=");
+        return [key.trim(), value.join("=").trim()] as [string, string];
+    }));
+    const file = fields.get("file");
+    if (!file) {
+        throw new UsageError(`--track "${spec}" is missing file=`);
+    }
+    const anchor = (fields.get("anchor") ?? "custom") as SignalAnchor;
+    if (!["donors", "acceptors", "custom"].includes(anchor)) {
+        throw new UsageError(`--track "${spec}": anchor must be donors, acceptors or custom`);
+    }
+    const plotType = (fields.get("type") ?? "box") as SignalPlotType;
+    if (!["box", "bar", "line"].includes(plotType)) {
+        throw new UsageError(`--track "${spec}": type must be box, bar or line`);
+    }
+    const name = fields.get("name") ?? basename(file, extname(file));
+    const track = createSignalTrack(nextSignalTrackId(tracks), name, anchor, fields.get("color") ?? nextSignalTrackColor(tracks));
+    track.plotType = plotType;
+    if (fields.has("positions")) {
+        track.customPositions = parsePositionList(fields.get("positions")!);
+    }
+    if (fields.has("exclude")) {
+        track.excludedPositions = parsePositionList(fields.get("exclude")!);
+    }
+    if (fields.has("discover")) {
+        track.discoverThreshold = positiveNumber("track discover", fields.get("discover"))!;
+    }
+    if (fields.has("scale")) {
+        const scale = fields.get("scale") as YScaleType;
+        if (!(scale in yScaleLabels)) {
+            throw new UsageError(`--track "${spec}": scale must be linear, sqrt, log or logit`);
+        }
+        track.yScale = scale;
+    }
+    if (fields.has("domain")) {
+        const domain = fields.get("domain") as YDomainMode;
+        if (!["shared", "site"].includes(domain)) {
+            throw new UsageError(`--track "${spec}": domain must be shared or site`);
+        }
+        track.yDomain = domain;
+    }
+    for (const key of ["ymin", "ymax"] as const) {
+        if (fields.has(key)) {
+            const value = Number(fields.get(key));
+            if (fields.get(key) === "" || !Number.isFinite(value)) {
+                throw new UsageError(`--track "${spec}": ${key} must be a number`);
+            }
+            track[key === "ymin" ? "yMin" : "yMax"] = value;
+        }
+    }
+    if (track.yMin !== null && track.yMax !== null && track.yMin >= track.yMax) {
+        throw new UsageError(`--track "${spec}": ymin must be below ymax`);
+    }
+    return loadSignalTrack(track, file);
+}
+
+// donors,track3,delta - returns track A with the display set and track B
+function parseCompareSpec(spec: string, tracks: SignalTrack[]): [SignalTrack, SignalTrack] {
+    const [aKey, bKey, display = "mirror"] = spec.split(",").map(field => field.trim());
+    const find = (key: string | undefined) => {
+        const track = tracks.find(signal => signal.id === key) ?? tracks.find(signal => signal.name === key);
+        if (!track) {
+            throw new UsageError(`--compare "${spec}": unknown track "${key ?? ""}". Known tracks: ${tracks.map(signal => signal.id).join(", ")}`);
+        }
+        return track;
+    };
+    const a = find(aKey);
+    const b = find(bKey);
+    if (a.id === b.id) {
+        throw new UsageError(`--compare "${spec}": a track cannot be compared with itself`);
+    }
+    if (display !== "mirror" && display !== "delta") {
+        throw new UsageError(`--compare "${spec}": display must be mirror or delta`);
+    }
+    return [{ ...a, compareDisplay: display as CompareDisplay }, b];
+}
+
+// orf:0.1,transcriptome:0.45,donors - tracks missing from the list are hidden
+function parseLayout(text: string, signalTracks: SignalTrack[]): TrackConfig[] {
+    const known = [...builtinTrackIds, ...signalTracks.map(track => track.id)];
+    const visible = text.split(",").map(entry => {
+        const [id, height] = entry.split(":").map(field => field.trim());
+        if (!known.includes(id)) {
+            throw new UsageError(`--layout: unknown track "${id}". Known tracks: ${known.join(", ")}`);
+        }
+        const defaultHeight = defaultTrackLayout.find(track => track.id === id)?.height ?? 0.25;
+        return { id, visible: true, height: positiveNumber("layout", height) ?? defaultHeight };
+    });
+    const hidden = known
+        .filter(id => !visible.some(track => track.id === id))
+        .map(id => ({ id, visible: false, height: defaultTrackLayout.find(track => track.id === id)?.height ?? 0.25 }));
+    return [...visible, ...hidden];
+}
+
+async function buildInputs(args: string[]): Promise<{ inputs: RenderInputs, outputs: string[], pngScale: number }> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            "gtf": { type: "string" },
+            "donors": { type: "string" },
+            "acceptors": { type: "string" },
+            "fasta": { type: "string" },
+            "junctions": { type: "string" },
+            "track": { type: "string", multiple: true },
+            "compare": { type: "string", multiple: true },
+            "session": { type: "string" },
+            "out": { type: "string", multiple: true },
+            "zoom-width": { type: "string" },
+            "zoom-window-width": { type: "string" },
+            "width": { type: "string" },
+            "height": { type: "string" },
+            "font-size": { type: "string" },
+            "seqid": { type: "string" },
+            "region": { type: "string" },
+            "transcript-orientation": { type: "boolean" },
+            "layout": { type: "string" },
+            "junction-source": { type: "string" },
+            "group-pattern": { type: "string" },
+            "sample-sheet": { type: "string" },
+            "site-names": { type: "string" },
+            "palette": { type: "string" },
+            "dark": { type: "boolean" },
+            "site-lines": { type: "string" },
+            "group-display": { type: "string" },
+            "timepoint-pattern": { type: "string" },
+            "timepoint-sheet": { type: "string" },
+            "png-scale": { type: "string" },
+            "force": { type: "boolean" },
+        },
+        strict: true,
+    });
+
+    const outputs = values.out ?? [];
+    if (outputs.length === 0) {
+        throw new UsageError("--out is required");
+    }
+    outputs.forEach(out => {
+        if (![".svg", ".png"].includes(extname(out).toLowerCase())) {
+            throw new UsageError(`--out ${out}: only .svg and .png outputs are supported`);
+        }
+    });
+
+    let session: Session | null = null;
+    if (values.session) {
+        try {
+            session = parseSession(await readText(values.session));
+        } catch (error) {
+            throw new Error(`${values.session}: ${(error as Error).message}`);
+        }
+    }
+
+    let gtf = session?.gtf ?? null;
+    if (values.gtf) {
+        gtf = { fileName: basename(values.gtf), text: await readGtfFile(await readInputFile(values.gtf)) };
+    }
+    if (!gtf) {
+        throw new UsageError("--gtf or a --session with an annotation is required");
+    }
+
+    let reference = session ? restoreReference(session) : null;
+    if (values.fasta) {
+        reference = { fileName: basename(values.fasta), sequences: await parseFasta(await readInputFile(values.fasta)) };
+    }
+
+    let junctions = session ? restoreJunctions(session) : null;
+    if (values.junctions) {
+        junctions = await parseJunctionFile(await readInputFile(values.junctions));
+    }
+
+    let signalTracks = session ? restoreSignalTracks(session) : [];
+    for (const anchor of ["donors", "acceptors"] as const) {
+        const path = values[anchor];
+        if (path) {
+            const existing = signalTracks.find(track => track.id === anchor)
+                ?? createSignalTrack(anchor, anchor === "donors" ? "Donors" : "Acceptors", anchor);
+            const loaded = await loadSignalTrack(existing, path);
+            signalTracks = [...signalTracks.filter(track => track.id !== anchor), loaded];
+        }
+    }
+    for (const spec of values.track ?? []) {
+        signalTracks = [...signalTracks, await parseTrackSpec(spec, signalTracks)];
+    }
+
+    const settings = { ...(session?.settings ?? defaultSessionSettings) };
+    settings.zoomWidth = positiveNumber("zoom-width", values["zoom-width"]) ?? settings.zoomWidth;
+    settings.zoomWindowWidth = positiveNumber("zoom-window-width", values["zoom-window-width"]) ?? settings.zoomWindowWidth;
+    settings.width = positiveNumber("width", values.width) ?? settings.width;
+    settings.height = positiveNumber("height", values.height) ?? settings.height;
+    settings.fontSize = positiveNumber("font-size", values["font-size"]) ?? settings.fontSize;
+    if (values["transcript-orientation"]) {
+        settings.transcriptOrientation = true;
+    }
+    if (values.seqid) {
+        settings.selectedSeqid = values.seqid;
+        settings.viewRange = null;
+    }
+    if (values.region) {
+        const region = parseRegion(values.region);
+        settings.viewRange = [region.start, region.end];
+        if (region.seqid) {
+            settings.selectedSeqid = region.seqid;
+        }
+    }
+    if (values.junctions) {
+        settings.junctionSource = "file";
+        settings.tracks = settings.tracks.map(track => track.id === "junctions" ? { ...track, visible: true } : track);
+    }
+    if (values["junction-source"]) {
+        if (values["junction-source"] !== "annotation" && values["junction-source"] !== "file") {
+            throw new UsageError("--junction-source must be annotation or file");
+        }
+        if (values["junction-source"] === "file" && !junctions) {
+            throw new UsageError("--junction-source file needs --junctions or a session with a junction file");
+        }
+        settings.junctionSource = values["junction-source"];
+    }
+    // layout entries for signal tracks added on the command line
+    settings.tracks = [
+        ...settings.tracks.filter(track => isBuiltinTrack(track.id) || signalTracks.some(signal => signal.id === track.id)),
+        ...signalTracks
+            .filter(signal => !settings.tracks.some(track => track.id === signal.id))
+            .map(signal => ({ id: signal.id, visible: true, height: 0.25 })),
+    ];
+    for (const spec of values.compare ?? []) {
+        const [a, b] = parseCompareSpec(spec, signalTracks);
+        signalTracks = signalTracks.map(track => track.id === a.id ? { ...track, compareWith: b.id, compareDisplay: a.compareDisplay } : track);
+        // condition B is drawn inside the zoom cells of A
+        settings.tracks = settings.tracks.map(track => track.id === b.id ? { ...track, visible: false } : track);
+    }
+    if (values.layout) {
+        settings.tracks = parseLayout(values.layout, signalTracks);
+    }
+
+    let sampleSheet = new Map(session?.sampleSheet ?? []);
+    if (values["group-pattern"]) {
+        settings.sampleGroupMode = "regex";
+        settings.sampleGroupPattern = values["group-pattern"];
+    }
+    if (values["sample-sheet"]) {
+        try {
+            sampleSheet = parseSampleSheet(await readText(values["sample-sheet"]));
+        } catch (error) {
+            throw new Error(`${values["sample-sheet"]}: ${(error as Error).message}`);
+        }
+        settings.sampleGroupMode = "sheet";
+    }
+    let timepointSheet = new Map(session?.timepointSheet ?? []);
+    if (values["timepoint-pattern"]) {
+        settings.timepointMode = "regex";
+        settings.timepointPattern = values["timepoint-pattern"];
+    }
+    if (values["timepoint-sheet"]) {
+        try {
+            timepointSheet = parseTimepointSheet(await readText(values["timepoint-sheet"]));
+        } catch (error) {
+            throw new Error(`${values["timepoint-sheet"]}: ${(error as Error).message}`);
+        }
+        settings.timepointMode = "sheet";
+    }
+    if (values.palette) {
+        if (!(values.palette in palettes)) {
+            throw new UsageError(`--palette must be one of ${Object.keys(palettes).join(", ")}`);
+        }
+        settings.palette = values.palette as PaletteName;
+        signalTracks = applyPalette(signalTracks, palettes[settings.palette].colors);
+    }
+    if (values.dark) {
+        settings.darkMode = true;
+    }
+    if (values["site-lines"]) {
+        if (!(values["site-lines"] in siteLineDashes)) {
+            throw new UsageError("--site-lines must be dashed, dotted or solid");
+        }
+        settings.siteLineStyle = values["site-lines"] as SiteLineStyle;
+    }
+
+    let siteNames = new Map(session?.siteNames ?? []);
+    if (values["site-names"]) {
+        try {
+            siteNames = parseSiteNames(await readText(values["site-names"]));
+        } catch (error) {
+            throw new Error(`${values["site-names"]}: ${(error as Error).message}`);
+        }
+    }
+    if (values["group-display"]) {
+        if (values["group-display"] !== "box" && values["group-display"] !== "points") {
+            throw new UsageError("--group-display must be box or points");
+        }
+        settings.groupDisplay = values["group-display"];
+    }
+
+    // the same input check as in the web app, errors stop the rendering unless --force is given
+    const regions = parseSequenceRegions(gtf.text);
+    const report = validateInputs({
+        gtf: { fileName: gtf.fileName, regions },
+        reference,
+        junctions: settings.junctionSource === "file" ? junctions : null,
+        signalTracks,
+        lineErrors: {}, // unparsable lines already stopped the reading
+        selectedSeqid: settings.selectedSeqid !== "" ? settings.selectedSeqid : regions[0]?.seqid ?? "",
+    });
+    report.issues.forEach(issue => process.stderr.write(`splicevar: ${formatIssue(issue)}\n`));
+    if (report.errors > 0 && !values.force) {
+        throw new Error(`the input check found ${report.errors} error${report.errors === 1 ? "" : "s"}, fix the inputs or render anyway with --force`);
+    }
+
+    return {
+        inputs: { gtf, reference: reference?.sequences ?? null, junctions, signalTracks, sampleSheet, timepointSheet, siteNames, settings },
+        outputs,
+        pngScale: positiveNumber("png-scale", values["png-scale"]) ?? 1,
+    };
+}
+
+async function main(argv: string[]): Promise<number> {
+    const [command, ...args] = argv;
+    if (command === "--help" || command === "-h" || args.includes("--help")) {
+        process.stdout.write(usage);
+        return 0;
+    }
+    if (command !== "render") {
+        process.stderr.write(`splicevar: unknown command "${command ?? ""}"\n\n${usage}`);
+        return 2;
+    }
+
+    try {
+        const { inputs, outputs, pngScale } = await buildInputs(args);
+        const svg = await renderSvg(inputs);
+        for (const out of outputs) {
+            if (extname(out).toLowerCase() === ".png") {
+                await writeFile(out, svgToPng(svg, pngScale));
+            } else {
+                await writeFile(out, svg);
+            }
+            process.stderr.write(`splicevar: wrote ${out}\n`);
+        }
+        return 0;
+    } catch (error) {
+        process.stderr.write(`splicevar: ${(error as Error).message}\n`);
+        if (error instanceof InputFileError) {
+            error.lineErrors.slice(1).forEach(lineError => process.stderr.write(`  ${formatLineError(lineError)}\n`));
+        }
+        if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+            process.stderr.write("Run splicevar --help for the list of options.\n");
+            return 2;
+        }
+        return 1;
+    }
+}
+
+main(process.argv.slice(2)).then(code => process.exit(code));
@@ -1,62 +1,664 @@
-import React, { useState } from "react";
+import React, { useState, useMemo, useEffect, useRef, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ProgressBar } from "react-bootstrap";
 
 import "./Home.css";
 
 import SettingsPanel from "../SettingsPanel/SettingsPanel";
 import ErrorModal from "../ErrorModal/ErrorModal";
 import SplicePlotWrapper from "../SplicePlot/SplicePlotWrapper";
+import StatsTable from "../StatsTable/StatsTable";
+import Spinner from "../Spinner/Spinner";
+import ValidationPanel from "../ValidationPanel/ValidationPanel";
 
-import { parseBed, BedFile, BedData, Transcriptome } from 'sparrowgenomelib';
+import { Transcriptome } from 'sparrowgenomelib';
+
+import {
+    SampleGroups,
+    SampleGroupMode,
+    SampleGroupDisplay,
+    collectSampleNames,
+    groupSamples,
+    parseSampleSheet
+} from "../../utils/sampleGroups";
+import { parseSignalFile } from "../../utils/nucleotideCounts";
+import { createSiteTestCache } from "../../utils/siteTests";
+import { SignalSummary, summarizeSignalTracksInWorker } from "../../utils/signalSummary";
+import { GenomicRegion, clampRegion } from "../../utils/region";
+import { LineError, InputFileError } from "../../utils/inputFiles";
+import { ReferenceSequences, parseFasta } from "../../utils/fasta";
+import { JunctionFile, JunctionSource, junctionsFromTranscriptome, parseJunctionFile } from "../../utils/junctions";
+import { SiteNames, parseSiteNames, siteNameKey } from "../../utils/siteLabels";
+import { discoverSites, parseSiteList } from "../../utils/siteLists";
+import { PaletteName, SiteLineStyle, buildTheme, palettes, sampleGroupColors } from "../../utils/themes";
+import { SampleTimepoint, SampleTimepoints, TimepointMode, parseTimepointSheet, sampleTimepoints } from "../../utils/timepoints";
+import {
+    SequenceRegion,
+    readGtfFile,
+    parseSequenceRegions,
+    filterGtfBySeqid
+} from "../../utils/sequences";
+import { ExampleVariant, exampleDatasets, fetchExampleFile } from "../../example/examples";
+import { TrackConfig, defaultTrackLayout, signalTrackConfig } from "../SplicePlot/trackLayout";
+import {
+    SignalTrack,
+    defaultSignalTracks,
+    createSignalTrack,
+    nextSignalTrackId,
+    nextSignalTrackColor,
+    applyPalette,
+    createSequenceDataCache
+} from "../../utils/signalTracks";
+import {
+    Session,
+    SessionSettings,
+    defaultSessionSettings,
+    createSession,
+    restoreJunctions,
+    restoreSignalTracks,
+    restoreReference,
+    parseSession,
+    checkSession,
+    settingsToSearchParams,
+    settingsFromSearchParams
+} from "../../utils/session";
+import { clearLastSession, loadLastSession, saveLastSession } from "../../utils/sessionStore";
+import { figureBaseName } from "../../utils/exportFigure";
+import { createValidationCache, validationReportKey } from "../../utils/validation";
+
+// milliseconds without changes before the session is stored
+const SESSION_SAVE_DELAY = 1000;
 
 const Home: React.FC = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    // view settings from the URL win over the defaults and over the restored session
+    const urlSettings = useRef<Partial<SessionSettings>>(settingsFromSearchParams(searchParams));
+    const initialSettings = { ...defaultSessionSettings, ...urlSettings.current };
+
     const [transcriptome, setTranscriptome] = useState<Transcriptome>(new Transcriptome());
-    const [zoomWidth, setZoomWidth] = useState<number>(5);
-    const [zoomWindowWidth, setZoomWindowWidth] = useState<number>(75);
-    const [fontSize, setFontSize] = useState<number>(10);
-    const [width, setWidth] = useState<number>(1100);
-    const [height, setHeight] = useState<number>(700);
-    const [bedFiles, setBedFiles] = useState<{
-        donors: BedFile;
-        acceptors: BedFile;
-    }>({donors: {data: new BedData(), fileName: "", status: 0},
-        acceptors: {data: new BedData(), fileName: "", status: 0}});
+    const [gtfStatus, setGtfStatus] = useState<number>(0); // 0 nothing loaded, 1 loaded, -1 unreadable
+    const [gtfSource, setGtfSource] = useState<{ text: string, fileName: string, regions: SequenceRegion[] } | null>(null);
+    const [reference, setReference] = useState<{ fileName: string, sequences: ReferenceSequences } | null>(null);
+    const [junctionFile, setJunctionFile] = useState<JunctionFile | null>(null);
+    const [junctionSource, setJunctionSource] = useState<JunctionSource>(initialSettings.junctionSource);
+    const [palette, setPalette] = useState<PaletteName>(initialSettings.palette);
+    const [darkMode, setDarkMode] = useState<boolean>(initialSettings.darkMode);
+    const [siteLineStyle, setSiteLineStyle] = useState<SiteLineStyle>(initialSettings.siteLineStyle);
+    const [selectedSeqid, setSelectedSeqid] = useState<string>(initialSettings.selectedSeqid);
+    const [zoomWidth, setZoomWidth] = useState<number>(initialSettings.zoomWidth);
+    const [zoomWindowWidth, setZoomWindowWidth] = useState<number>(initialSettings.zoomWindowWidth);
+    const [fontSize, setFontSize] = useState<number>(initialSettings.fontSize);
+    const [width, setWidth] = useState<number>(initialSettings.width);
+    const [height, setHeight] = useState<number>(initialSettings.height);
+    const [signalTracks, setSignalTracks] = useState<SignalTrack[]>(defaultSignalTracks);
+    const [sampleGroupMode, setSampleGroupMode] = useState<SampleGroupMode>(initialSettings.sampleGroupMode);
+    const [sampleGroupPattern, setSampleGroupPattern] = useState<string>(initialSettings.sampleGroupPattern);
+    const [sampleSheet, setSampleSheet] = useState<Map<string, string>>(new Map());
+    const [siteNames, setSiteNames] = useState<SiteNames>(new Map());
+    const [groupDisplay, setGroupDisplay] = useState<SampleGroupDisplay>(initialSettings.groupDisplay);
+    const [timepointMode, setTimepointMode] = useState<TimepointMode>(initialSettings.timepointMode);
+    const [timepointPattern, setTimepointPattern] = useState<string>(initialSettings.timepointPattern);
+    const [timepointSheet, setTimepointSheet] = useState<Map<string, SampleTimepoint>>(new Map());
+    const [transcriptOrientation, setTranscriptOrientation] = useState<boolean>(initialSettings.transcriptOrientation);
+    const [viewRange, setViewRange] = useState<[number, number] | null>(initialSettings.viewRange);
+    const [tracks, setTracks] = useState<TrackConfig[]>(initialSettings.tracks);
+    const [sessionRestored, setSessionRestored] = useState<boolean>(false);
+    const [signalSummaries, setSignalSummaries] = useState<Map<string, SignalSummary>>(new Map());
+    const [summaryProgress, setSummaryProgress] = useState<number | null>(null); // null when no summary is being computed
+    const [loadProgress, setLoadProgress] = useState<{ [input: string]: number }>({}); // keyed by "gtf", "fasta", "junctions" or signal track id
+    const [lineErrors, setLineErrors] = useState<{ [input: string]: LineError[] }>({});
     const [errorModalVisible, setErrorModalVisible] = useState(false);
     const [errorMessage, setErrorMessage] = useState('');
 
+    const gtfErrorMessage = "Unable to parse the file. Please make sure the file is in GTF format. Try to run gffread -T to prepare your file.";
+
+    // progress of an input that is being read, cleared with null once it is done
+    const updateLoadProgress = (input: string, fraction: number | null) => {
+        setLoadProgress(prev => {
+            const next = { ...prev };
+            if (fraction === null) {
+                delete next[input];
+            } else {
+                next[input] = fraction;
+            }
+            return next;
+        });
+    };
+
+    // Bad lines are listed next to the upload field rather than in the error modal
+    const reportLoadError = (input: string, error: unknown, message: string) => {
+        if (error instanceof InputFileError) {
+            setLineErrors(prev => ({ ...prev, [input]: error.lineErrors }));
+            return;
+        }
+        setErrorMessage(message);
+        setErrorModalVisible(true);
+    };
+
+    const loadGtfFile = async (file: File) => {
+        setLineErrors(prev => ({ ...prev, gtf: [] }));
+        try {
+            const text = await readGtfFile(file, fraction => updateLoadProgress("gtf", fraction));
+            const regions = parseSequenceRegions(text);
+            if (regions.length === 0) {
+                throw new Error("No sequences found in the GTF file");
+            }
+            setGtfSource({ text, fileName: file.name, regions });
+            setGtfStatus(1);
+            setSelectedSeqid(regions[0].seqid);
+            setViewRange(null);
+        } catch (error) {
+            setGtfSource(null);
+            setGtfStatus(-1);
+            setTranscriptome(new Transcriptome());
+            reportLoadError("gtf", error, gtfErrorMessage);
+        } finally {
+            updateLoadProgress("gtf", null);
+        }
+    };
+
+    // build the transcriptome of the selected sequence only, so that multi-sequence GTFs are not merged onto one axis
+    useEffect(() => {
+        if (!gtfSource || selectedSeqid === "") {
+            return;
+        }
+        let cancelled = false;
+        const file = new File([filterGtfBySeqid(gtfSource.text, selectedSeqid)], gtfSource.fileName);
+        Transcriptome.create(file)
+            .then(txdata => {
+                if (!cancelled) {
+                    setTranscriptome(txdata);
+                }
+            })
+            .catch(() => {
+                if (!cancelled) {
+                    setTranscriptome(new Transcriptome());
+                    setGtfStatus(-1);
+                    setErrorMessage(gtfErrorMessage);
+                    setErrorModalVisible(true);
+                }
+            });
+        return () => { cancelled = true; };
+    }, [gtfSource, selectedSeqid]);
+
+    const handleSeqidChange = (seqid: string) => {
+        setSelectedSeqid(seqid);
+        setViewRange(null);
+    };
+
+    // region box input may switch the sequence as well as the window
+    const handleRegionChange = (region: GenomicRegion) => {
+        if (region.seqid && region.seqid !== selectedSeqid) {
+            if (!gtfSource?.regions.some(sequence => sequence.seqid === region.seqid)) {
+                throw new Error(`Sequence ${region.seqid} is not annotated in the GTF file`);
+            }
+        }
+        const seqid = region.seqid ?? selectedSeqid;
+        const sequence = gtfSource?.regions.find(sequence => sequence.seqid === seqid);
+        const { start, end } = clampRegion(region, sequence?.end ?? 0);
+        setSelectedSeqid(seqid);
+        setViewRange([start, end]);
+    };
+
+    const updateSignalTrack = (id: string, update: (track: SignalTrack) => Partial<SignalTrack>) => {
+        setSignalTracks(prevTracks => prevTracks.map(track => track.id === id ? { ...track, ...update(track) } : track));
+    };
+
+    const loadBedFile = async (trackId: string, file: File) => {
+        setLineErrors(prev => ({ ...prev, [trackId]: [] }));
+        try {
+            const { bedFile, composition, facts } = await parseSignalFile(file, fraction => updateLoadProgress(trackId, fraction));
+            bedFile.data.sort();
+            updateSignalTrack(trackId, () => ({ bedFile: { ...bedFile, status: 1 }, composition, inputFacts: facts }));
+        } catch (error) {
+            updateSignalTrack(trackId, track => ({ bedFile: { ...track.bedFile, status: -1 } }));
+            reportLoadError(trackId, error, `Unable to parse the file. ${(error as Error).message ?? ""} Please make sure the file is in BED format or a headered seqid/position/A/C/G/T/N count table.`);
+        } finally {
+            updateLoadProgress(trackId, null);
+        }
+    };
+
     const handleGtfUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            await loadGtfFile(file);
+        }
+    };
+
+    const handleFastaUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) {
+            return;
+        }
+        setLineErrors(prev => ({ ...prev, fasta: [] }));
+        try {
+            const sequences = await parseFasta(file, fraction => updateLoadProgress("fasta", fraction));
+            setReference({ fileName: file.name, sequences });
+        } catch (error) {
+            setReference(null);
+            reportLoadError("fasta", error, `Unable to parse the FASTA file. ${(error as Error).message}`);
+        } finally {
+            updateLoadProgress("fasta", null);
+        }
+    };
+
+    // an uploaded junction file replaces the annotated introns and shows the junction track
+    const handleJunctionUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) {
+            return;
+        }
+        setLineErrors(prev => ({ ...prev, junctions: [] }));
+        try {
+            setJunctionFile(await parseJunctionFile(file, fraction => updateLoadProgress("junctions", fraction)));
+            setJunctionSource("file");
+            setTracks(prevTracks => prevTracks.map(track => track.id === "junctions" ? { ...track, visible: true } : track));
+        } catch (error) {
+            setJunctionFile(null);
+            reportLoadError("junctions", error, `Unable to parse the junction file. ${(error as Error).message} Expected a STAR SJ.out.tab or BED12 file.`);
+        } finally {
+            updateLoadProgress("junctions", null);
+        }
+    };
+
+    const handleBedFileUpload = async (trackId: string, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            await loadBedFile(trackId, file);
+        }
+    };
+
+    // sites of an uploaded list get zoom cells in addition to the ones already listed
+    const handleSiteListUpload = async (trackId: string, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            try {
+                const positions = parseSiteList(await file.text(), selectedSeqid);
+                updateSignalTrack(trackId, track => ({
+                    customPositions: Array.from(new Set([...track.customPositions, ...positions])).sort((a, b) => a - b),
+                    excludedPositions: track.excludedPositions.filter(position => !positions.includes(position)),
+                }));
+            } catch (error) {
+                setErrorMessage(`Unable to parse the site list. ${(error as Error).message}. Expected a BED file or tab separated seqid and position columns.`);
+                setErrorModalVisible(true);
+            }
+        }
+    };
+
+    const handleExcludeSite = (trackId: string, position: number) => {
+        updateSignalTrack(trackId, track => ({
+            customPositions: track.customPositions.filter(custom => custom !== position),
+            excludedPositions: Array.from(new Set([...track.excludedPositions, position])).sort((a, b) => a - b),
+        }));
+    };
+
+    const handleAddSignalTrack = () => {
+        const id = nextSignalTrackId(signalTracks);
+        setSignalTracks([...signalTracks, createSignalTrack(id, `Track ${signalTracks.length + 1}`, "custom", nextSignalTrackColor(signalTracks, palettes[palette].colors))]);
+        setTracks([...tracks, signalTrackConfig(id)]);
+    };
+
+    // a new palette recolors all tracks, the color pickers then adjust single tracks
+    const handlePaletteChange = (name: PaletteName) => {
+        setPalette(name);
+        setSignalTracks(applyPalette(signalTracks, palettes[name].colors));
+    };
+
+    // Condition B gets its own track to load the second data set into. It is drawn inside the zoom cells of the
+    // compared track, so its own rows start hidden.
+    const handleAddComparisonTrack = (trackId: string) => {
+        const track = signalTracks.find(signalTrack => signalTrack.id === trackId);
+        if (!track) {
+            return;
+        }
+        const id = nextSignalTrackId(signalTracks);
+        const comparison: SignalTrack = {
+            ...createSignalTrack(id, `${track.name} (B)`, track.anchor, nextSignalTrackColor(signalTracks, palettes[palette].colors)),
+            customPositions: track.customPositions,
+        };
+        setSignalTracks([...signalTracks.map(signalTrack => signalTrack.id === trackId ? { ...signalTrack, compareWith: id } : signalTrack), comparison]);
+        setTracks([...tracks, { ...signalTrackConfig(id), visible: false }]);
+    };
+
+    const handleRemoveSignalTrack = (id: string) => {
+        setSignalTracks(signalTracks
+            .filter(track => track.id !== id)
+            .map(track => track.compareWith === id ? { ...track, compareWith: null } : track));
+        setTracks(tracks.filter(track => track.id !== id));
+        setLineErrors(prev => {
+            const next = { ...prev };
+            delete next[id];
+            return next;
+        });
+    };
+
+    const handleSignalTrackChange = (id: string, changes: Partial<SignalTrack>) => {
+        updateSignalTrack(id, () => changes);
+    };
+
+    // load the bundled example through the same parsers as user uploads
+    const handleLoadExample = async (variant: ExampleVariant) => {
+        const dataset = exampleDatasets[variant];
+        try {
+            const [gtfFile, donorsFile, acceptorsFile] = await Promise.all([
+                fetchExampleFile(dataset.gtf),
+                fetchExampleFile(dataset.donors),
+                fetchExampleFile(dataset.acceptors),
+            ]);
+            // the example replaces all signal tracks with the default donor and acceptor pair
+            setSignalTracks(applyPalette(defaultSignalTracks, palettes[palette].colors));
+            setTracks(defaultTrackLayout);
+            setReference(null);
+            setJunctionFile(null);
+            setJunctionSource("annotation");
+            setSiteNames(new Map());
+            await loadGtfFile(gtfFile);
+            await loadBedFile("donors", donorsFile);
+            await loadBedFile("acceptors", acceptorsFile);
+        } catch (error) {
+            setErrorMessage(`Unable to load the example dataset. ${(error as Error).message}`);
+            setErrorModalVisible(true);
+        }
+    };
+
+    const handleSampleSheetUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
             try {
-                const txdata = await Transcriptome.create(file);
-                setTranscriptome(txdata);
+                const text = await file.text();
+                setSampleSheet(parseSampleSheet(text));
             } catch (error) {
-                setTranscriptome(new Transcriptome());
-                setErrorMessage("Unable to parse the file. Please make sure the file is in GTF format. Try to run gffread -T to prepare your file.");
+                setSampleSheet(new Map());
+                setErrorMessage(`Unable to parse the sample sheet. ${(error as Error).message}. Expected two tab or comma separated columns: sample and group.`);
                 setErrorModalVisible(true);
             }
         }
     };
 
-    const handleBedFileUpload = async (type: 'donors' | 'acceptors', event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleTimepointSheetUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
             try {
-                const bed_data: BedFile = await parseBed(file);
-                bed_data.data.sort();
-                setBedFiles(prevBedFiles => ({
-                    ...prevBedFiles,
-                    [type]: { ...bed_data, status: 1 }
-                }));
+                setTimepointSheet(parseTimepointSheet(await file.text()));
             } catch (error) {
-                setBedFiles(prevBedFiles => ({
-                    ...prevBedFiles,
-                    [type]: { ...prevBedFiles[type], status: -1 }
-                }));
-                setErrorMessage("Unable to parse the file. Please make sure the file is in BED format.");
+                setTimepointSheet(new Map());
+                setErrorMessage(`Unable to parse the timepoint sheet. ${(error as Error).message}. Expected three tab or comma separated columns: sample, subject and time.`);
+                setErrorModalVisible(true);
+            }
+        }
+    };
+
+    // a mapping file replaces all names given so far
+    const handleSiteNamesUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            try {
+                setSiteNames(parseSiteNames(await file.text()));
+            } catch (error) {
+                setErrorMessage(`Unable to parse the site name mapping. ${(error as Error).message}. Expected tab or comma separated position and name columns, optionally preceded by the seqid.`);
+                setErrorModalVisible(true);
+            }
+        }
+    };
+
+    // names edited in the plot apply to the selected sequence only
+    const handleSiteNameChange = (position: number, name: string | null) => {
+        setSiteNames(prev => {
+            const next = new Map(prev);
+            if (name === null) {
+                next.delete(siteNameKey(selectedSeqid, position));
+                next.delete(siteNameKey("", position));
+            } else {
+                next.set(siteNameKey(selectedSeqid, position), name);
+            }
+            return next;
+        });
+    };
+
+    // Only BED lines on the selected sequence are plotted. The filtered data only changes with the loaded files and
+    // the sequence, not with display settings of the tracks.
+    const sequenceDataCache = useRef(createSequenceDataCache());
+    const sequenceTrackData = useMemo(() => sequenceDataCache.current(signalTracks, selectedSeqid), [signalTracks, selectedSeqid]);
+    const sequenceSignalTracks = useMemo(() => signalTracks.map((track, i) => ({
+        ...track,
+        bedFile: { ...track.bedFile, data: sequenceTrackData[i].data },
+    })), [signalTracks, sequenceTrackData]);
+
+    // Aggregate the signal once per data set in a worker. Plot settings such as the font size only redraw.
+    useEffect(() => {
+        setSummaryProgress(0);
+        const { result, cancel } = summarizeSignalTracksInWorker(sequenceTrackData, setSummaryProgress);
+        let cancelled = false;
+        result
+            .then(summaries => {
+                if (!cancelled) {
+                    setSignalSummaries(summaries);
+                }
+            })
+            .catch((error: Error) => {
+                if (!cancelled) {
+                    setErrorMessage(`Unable to summarize the signal tracks. ${error.message}`);
+                    setErrorModalVisible(true);
+                }
+            })
+            .finally(() => {
+                if (!cancelled) {
+                    setSummaryProgress(null);
+                }
+            });
+        return () => {
+            cancelled = true;
+            cancel();
+        };
+    }, [sequenceTrackData]);
+
+    // discovered sites depend on the summaries, so they are added to the plotted tracks once those are computed
+    const plottedSignalTracks = useMemo(() => {
+        return sequenceSignalTracks.map(track => {
+            const summary = signalSummaries.get(track.id);
+            if (track.discoverThreshold === null || !summary) {
+                return track;
+            }
+            return { ...track, discoveredPositions: discoverSites(summary, transcriptome, track.discoverThreshold) };
+        });
+    }, [sequenceSignalTracks, signalSummaries, transcriptome]);
+
+    // arcs of the junction track on the selected sequence
+    const junctions = useMemo(() => {
+        if (junctionSource === "file") {
+            return junctionFile?.junctions.filter(junction => junction.seqid === selectedSeqid) ?? [];
+        }
+        return junctionsFromTranscriptome(transcriptome, selectedSeqid);
+    }, [junctionSource, junctionFile, transcriptome, selectedSeqid]);
+
+    // problems of the loaded inputs, checked against each other before plotting - only when the data changes
+    const validationCache = useRef(createValidationCache());
+    const validationReport = useMemo(() => validationCache.current({
+        gtf: gtfSource,
+        reference,
+        junctions: junctionSource === "file" ? junctionFile : null,
+        signalTracks,
+        lineErrors,
+        selectedSeqid,
+    }), [gtfSource, reference, junctionSource, junctionFile, signalTracks, lineErrors, selectedSeqid]);
+
+    // A report with errors holds the plot back until it is accepted with "Plot anyway". A report with other issues
+    // has to be accepted again.
+    const [acceptedReportKey, setAcceptedReportKey] = useState<string | null>(null);
+    const validationKey = useMemo(() => validationReportKey(validationReport), [validationReport]);
+    const plotBlocked = validationReport.errors > 0 && acceptedReportKey !== validationKey;
+
+    // assign samples from the BED name column to groups according to the current settings
+    const { sampleGroups, sampleGroupError } = useMemo((): { sampleGroups: SampleGroups | null, sampleGroupError: string } => {
+        const names = collectSampleNames(...sequenceTrackData.map(track => track.data));
+        try {
+            const colors = sampleGroupColors(palettes[palette]);
+            return { sampleGroups: groupSamples(names, sampleGroupMode, sampleGroupPattern, sampleSheet, colors), sampleGroupError: "" };
+        } catch (error) {
+            return { sampleGroups: null, sampleGroupError: `Invalid pattern: ${(error as Error).message}` };
+        }
+    }, [sequenceTrackData, sampleGroupMode, sampleGroupPattern, sampleSheet, palette]);
+
+    // subject and timepoint of each sample for the longitudinal view
+    const { timepoints, timepointError } = useMemo((): { timepoints: SampleTimepoints | null, timepointError: string } => {
+        const names = collectSampleNames(...sequenceTrackData.map(track => track.data));
+        try {
+            const colors = sampleGroupColors(palettes[palette]);
+            return { timepoints: sampleTimepoints(names, timepointMode, timepointPattern, timepointSheet, colors), timepointError: "" };
+        } catch (error) {
+            return { timepoints: null, timepointError: (error as Error).message };
+        }
+    }, [sequenceTrackData, timepointMode, timepointPattern, timepointSheet, palette]);
+
+    const theme = useMemo(() => buildTheme({ palette, darkMode, siteLineStyle }), [palette, darkMode, siteLineStyle]);
+
+    // per-site comparison of the sample groups
+    const siteTestCache = useRef(createSiteTestCache());
+    const siteTests = useMemo(() => {
+        if (!sampleGroups) {
+            return null;
+        }
+        return siteTestCache.current(plottedSignalTracks, transcriptome, sampleGroups);
+    }, [transcriptome, plottedSignalTracks, sampleGroups]);
+
+    const sessionSettings = useMemo((): SessionSettings => ({
+        zoomWidth,
+        zoomWindowWidth,
+        fontSize,
+        width,
+        height,
+        selectedSeqid,
+        viewRange,
+        transcriptOrientation,
+        sampleGroupMode,
+        sampleGroupPattern,
+        groupDisplay,
+        timepointMode,
+        timepointPattern,
+        junctionSource,
+        palette,
+        darkMode,
+        siteLineStyle,
+        tracks,
+    }), [zoomWidth, zoomWindowWidth, fontSize, width, height, selectedSeqid, viewRange, transcriptOrientation,
+        sampleGroupMode, sampleGroupPattern, groupDisplay, timepointMode, timepointPattern, junctionSource, palette, darkMode,
+        siteLineStyle, tracks]);
+
+    const session = useMemo(() => {
+        return createSession(gtfSource, reference, junctionFile, signalTracks, sampleSheet, timepointSheet, siteNames, sessionSettings);
+    }, [gtfSource, reference, junctionFile, signalTracks, sampleSheet, timepointSheet, siteNames, sessionSettings]);
+
+    const applySession = useCallback((session: Session, overrides: Partial<SessionSettings> = {}) => {
+        const settings = { ...session.settings, ...overrides };
+        if (session.gtf) {
+            const regions = parseSequenceRegions(session.gtf.text);
+            setGtfSource({ ...session.gtf, regions });
+            setGtfStatus(1);
+            // fall back to the first sequence when the requested one is not annotated
+            if (!regions.some(region => region.seqid === settings.selectedSeqid)) {
+                settings.selectedSeqid = regions[0]?.seqid ?? "";
+                settings.viewRange = null;
+            }
+        } else {
+            setGtfSource(null);
+            setGtfStatus(0);
+            setTranscriptome(new Transcriptome());
+        }
+        setLineErrors({});
+        setReference(restoreReference(session));
+        setJunctionFile(restoreJunctions(session));
+        setSignalTracks(restoreSignalTracks(session));
+        setSampleSheet(new Map(session.sampleSheet));
+        setTimepointSheet(new Map(session.timepointSheet ?? []));
+        setSiteNames(new Map(session.siteNames ?? []));
+        setZoomWidth(settings.zoomWidth);
+        setZoomWindowWidth(settings.zoomWindowWidth);
+        setFontSize(settings.fontSize);
+        setWidth(settings.width);
+        setHeight(settings.height);
+        setSelectedSeqid(settings.selectedSeqid);
+        setViewRange(settings.viewRange);
+        setTranscriptOrientation(settings.transcriptOrientation);
+        setSampleGroupMode(settings.sampleGroupMode);
+        setSampleGroupPattern(settings.sampleGroupPattern);
+        setGroupDisplay(settings.groupDisplay);
+        setTimepointMode(settings.timepointMode);
+        setTimepointPattern(settings.timepointPattern);
+        setJunctionSource(settings.junctionSource);
+        setPalette(settings.palette);
+        setDarkMode(settings.darkMode);
+        setSiteLineStyle(settings.siteLineStyle);
+        setTracks(settings.tracks);
+    }, []);
+
+    // bring back the last session on page load
+    useEffect(() => {
+        loadLastSession()
+            .then(lastSession => {
+                if (lastSession) {
+                    applySession(checkSession(lastSession), urlSettings.current);
+                }
+            })
+            .catch(() => {
+                // IndexedDB is unavailable (e.g. private browsing) or holds an outdated session - start empty
+            })
+            .finally(() => setSessionRestored(true));
+    }, [applySession]);
+
+    // Persist the session once the stored one has been restored, so that it is not overwritten by the empty start
+    // state. Saving waits until the settings have not changed for a moment.
+    useEffect(() => {
+        if (!sessionRestored) {
+            return;
+        }
+        const timer = setTimeout(() => {
+            saveLastSession(session).catch(() => {});
+        }, SESSION_SAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [session, sessionRestored]);
+
+    // forget the stored session and start over with no data and the default settings
+    const handleClearSavedSession = async () => {
+        try {
+            await clearLastSession();
+        } catch (error) {
+            setErrorMessage(`Unable to clear the saved session. ${(error as Error).message}`);
+            setErrorModalVisible(true);
+            return;
+        }
+        applySession(createSession(null, null, null, defaultSignalTracks, new Map(), new Map(), new Map(), defaultSessionSettings));
+    };
+
+    // mirror the view settings in the URL query string
+    useEffect(() => {
+        const params = settingsToSearchParams(sessionSettings);
+        if (params.toString() !== searchParams.toString()) {
+            setSearchParams(params, { replace: true });
+        }
+    }, [sessionSettings, searchParams, setSearchParams]);
+
+    const handleSaveSession = () => {
+        const blob = new Blob([JSON.stringify(session)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `${gtfSource ? gtfSource.fileName.replace(/\.[^.]*$/, "") : "splicevar"}.session.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleLoadSession = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            try {
+                applySession(parseSession(await file.text()));
+            } catch (error) {
+                setErrorMessage(`Unable to load the session. ${(error as Error).message}`);
                 setErrorModalVisible(true);
             }
         }
-        console.log("bedFiles1", bedFiles);
     };
 
     const closeErrorModal = () => {
@@ -66,11 +668,35 @@ const Home: React.FC = () => {
     return (
         <div className="splicemap-plot">
             <SettingsPanel
-                gtfStatus={1}
+                gtfStatus={gtfStatus}
                 onGTFUpload={handleGtfUpload}
-                donorsStatus={bedFiles.donors.status}
-                acceptorsStatus={bedFiles.acceptors.status}
-                onBEDUpload={handleBedFileUpload}
+                onFastaUpload={handleFastaUpload}
+                referenceFileName={reference?.fileName ?? ""}
+                onJunctionUpload={handleJunctionUpload}
+                junctionFileName={junctionFile?.fileName ?? ""}
+                junctionSource={junctionSource}
+                onJunctionSourceChange={setJunctionSource}
+                onSiteNamesUpload={handleSiteNamesUpload}
+                siteNameCount={siteNames.size}
+                onClearSiteNames={() => setSiteNames(new Map())}
+                palette={palette}
+                onPaletteChange={handlePaletteChange}
+                darkMode={darkMode}
+                onDarkModeChange={setDarkMode}
+                siteLineStyle={siteLineStyle}
+                onSiteLineStyleChange={setSiteLineStyle}
+                signalTracks={signalTracks}
+                onSignalTrackUpload={handleBedFileUpload}
+                onSiteListUpload={handleSiteListUpload}
+                discoveredPositions={Object.fromEntries(plottedSignalTracks.map(track => [track.id, track.discoveredPositions]))}
+                onAddSignalTrack={handleAddSignalTrack}
+                onRemoveSignalTrack={handleRemoveSignalTrack}
+                onAddComparisonTrack={handleAddComparisonTrack}
+                onSignalTrackChange={handleSignalTrackChange}
+                onLoadExample={handleLoadExample}
+                onSaveSession={handleSaveSession}
+                onLoadSession={handleLoadSession}
+                onClearSavedSession={handleClearSavedSession}
                 zoomWidth={zoomWidth}
                 onZoomWidthChange={setZoomWidth}
                 zoomWindowWidth={zoomWindowWidth}
@@ -81,18 +707,81 @@ const Home: React.FC = () => {
                 onWidthChange={setWidth}
                 height={height}
                 onHeightChange={setHeight}
+                sampleGroupMode={sampleGroupMode}
+                onSampleGroupModeChange={setSampleGroupMode}
+                sampleGroupPattern={sampleGroupPattern}
+                onSampleGroupPatternChange={setSampleGroupPattern}
+                sampleGroupError={sampleGroupError}
+                onSampleSheetUpload={handleSampleSheetUpload}
+                groupDisplay={groupDisplay}
+                onGroupDisplayChange={setGroupDisplay}
+                timepointMode={timepointMode}
+                onTimepointModeChange={setTimepointMode}
+                timepointPattern={timepointPattern}
+                onTimepointPatternChange={setTimepointPattern}
+                timepointError={timepointError}
+                onTimepointSheetUpload={handleTimepointSheetUpload}
+                timepointSummary={timepoints ? { subjects: timepoints.subjects.length, times: timepoints.times } : null}
+                viewRange={viewRange}
+                onViewRangeChange={setViewRange}
+                onRegionChange={handleRegionChange}
+                sequenceIds={gtfSource?.regions.map(region => region.seqid) ?? []}
+                selectedSeqid={selectedSeqid}
+                onSeqidChange={handleSeqidChange}
+                transcriptOrientation={transcriptOrientation}
+                onTranscriptOrientationChange={setTranscriptOrientation}
+                tracks={tracks}
+                onTracksChange={setTracks}
+                loadProgress={loadProgress}
+                lineErrors={lineErrors}
             />
 
             <div className="visualization-container">
-                <SplicePlotWrapper
-                    transcriptome={transcriptome}
-                    bedFiles={bedFiles}
-                    zoomWidth={zoomWidth}
-                    zoomWindowWidth={zoomWindowWidth}
-                    width={width}
-                    height={height}
-                    fontSize={fontSize}
-                />
+                {validationReport.issues.length > 0 && (
+                    <ValidationPanel
+                        report={validationReport}
+                        blocked={plotBlocked}
+                        onPlotAnyway={() => setAcceptedReportKey(validationKey)}
+                    />
+                )}
+                {/* the first summary replaces the empty page, later ones keep the plot with its zoom and open
+                    inspector until the new summaries are in */}
+                {summaryProgress !== null && signalSummaries.size > 0 && (
+                    <ProgressBar className="summary-progress" now={Math.round(summaryProgress * 100)} label="Summarizing signal tracks" />
+                )}
+                {summaryProgress !== null && signalSummaries.size === 0 ? (
+                    <Spinner message="Summarizing signal tracks" progress={summaryProgress} />
+                ) : !plotBlocked && (
+                    <SplicePlotWrapper
+                        transcriptome={transcriptome}
+                        signalTracks={plottedSignalTracks}
+                        onExcludeSite={handleExcludeSite}
+                        signalSummaries={signalSummaries}
+                        seqid={selectedSeqid}
+                        referenceSequence={reference?.sequences.get(selectedSeqid) ?? null}
+                        junctions={junctions}
+                        siteNames={siteNames}
+                        onSiteNameChange={handleSiteNameChange}
+                        theme={theme}
+                        zoomWidth={zoomWidth}
+                        zoomWindowWidth={zoomWindowWidth}
+                        width={width}
+                        height={height}
+                        fontSize={fontSize}
+                        tracks={tracks}
+                        sampleGroups={sampleGroups}
+                        groupDisplay={groupDisplay}
+                        timepoints={timepoints}
+                        siteTests={siteTests}
+                        transcriptOrientation={transcriptOrientation}
+                        viewRange={viewRange}
+                        onViewRangeChange={setViewRange}
+                        figureName={figureBaseName(gtfSource?.fileName, signalTracks.map(track => track.bedFile.fileName))}
+                    />
+                )}
+                {siteTests && siteTests.length > 0 && (
+                    <StatsTable results={siteTests} />
+                )}
             </div>
 
             <ErrorModal
@@ -1,14 +1,50 @@
-import React, { useState } from "react";
-import { Card, Form, OverlayTrigger, Tooltip } from "react-bootstrap";
-import { InfoCircle } from "react-bootstrap-icons";
+import React, { useEffect, useState } from "react";
+import { Button, Card, Form, InputGroup, OverlayTrigger, ProgressBar, Tooltip } from "react-bootstrap";
+import { InfoCircle, PlusCircle, Trash } from "react-bootstrap-icons";
 import "./SettingsPanel.css";
 
+import { SampleGroupMode, SampleGroupDisplay } from "../../utils/sampleGroups";
+import { ExampleVariant, exampleDatasets } from "../../example/examples";
+import { GenomicRegion, parseRegion, formatRegion } from "../../utils/region";
+import { TrackConfig, trackLabels } from "../SplicePlot/trackLayout";
+import { SignalTrack, SignalAnchor, SignalPlotType, parsePositionList } from "../../utils/signalTracks";
+import { LineError, formatLineError } from "../../utils/inputFiles";
+import { JunctionSource } from "../../utils/junctions";
+import { PaletteName, SiteLineStyle, palettes } from "../../utils/themes";
+import { YDomainMode, YScaleType, yScaleLabels } from "../../utils/yScales";
+import { TimepointMode } from "../../utils/timepoints";
+import { CompareDisplay } from "../../utils/comparison";
+
 interface SettingsPanelProps {
     gtfStatus: number;
     onGTFUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
-    donorsStatus: number;
-    acceptorsStatus: number;
-    onBEDUpload: (type: 'donors' | 'acceptors', event: React.ChangeEvent<HTMLInputElement>) => void;
+    onFastaUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    referenceFileName: string;
+    onJunctionUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    junctionFileName: string;
+    junctionSource: JunctionSource;
+    onJunctionSourceChange: (value: JunctionSource) => void;
+    onSiteNamesUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    siteNameCount: number;
+    onClearSiteNames: () => void;
+    palette: PaletteName;
+    onPaletteChange: (value: PaletteName) => void;
+    darkMode: boolean;
+    onDarkModeChange: (value: boolean) => void;
+    siteLineStyle: SiteLineStyle;
+    onSiteLineStyleChange: (value: SiteLineStyle) => void;
+    signalTracks: SignalTrack[];
+    onSignalTrackUpload: (trackId: string, event: React.ChangeEvent<HTMLInputElement>) => void;
+    onSiteListUpload: (trackId: string, event: React.ChangeEvent<HTMLInputElement>) => void;
+    discoveredPositions: { [trackId: string]: number[] };
+    onAddSignalTrack: () => void;
+    onRemoveSignalTrack: (trackId: string) => void;
+    onAddComparisonTrack: (trackId: string) => void; // new track for condition B of the given one
+    onSignalTrackChange: (trackId: string, changes: Partial<SignalTrack>) => void;
+    onLoadExample: (variant: ExampleVariant) => void;
+    onSaveSession: () => void;
+    onLoadSession: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    onClearSavedSession: () => void;
     zoomWidth: number;
     onZoomWidthChange: (value: number) => void;
     zoomWindowWidth: number;
@@ -19,14 +55,65 @@ interface SettingsPanelProps {
     onWidthChange: (value: number) => void;
     height: number;
     onHeightChange: (value: number) => void;
+    sampleGroupMode: SampleGroupMode;
+    onSampleGroupModeChange: (value: SampleGroupMode) => void;
+    sampleGroupPattern: string;
+    onSampleGroupPatternChange: (value: string) => void;
+    sampleGroupError: string;
+    onSampleSheetUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    groupDisplay: SampleGroupDisplay;
+    onGroupDisplayChange: (value: SampleGroupDisplay) => void;
+    timepointMode: TimepointMode;
+    onTimepointModeChange: (value: TimepointMode) => void;
+    timepointPattern: string;
+    onTimepointPatternChange: (value: string) => void;
+    timepointError: string;
+    onTimepointSheetUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    timepointSummary: { subjects: number, times: number[] } | null; // what the current mapping found
+    viewRange: [number, number] | null;
+    onViewRangeChange: (value: [number, number] | null) => void;
+    onRegionChange: (region: GenomicRegion) => void;
+    sequenceIds: string[];
+    selectedSeqid: string;
+    onSeqidChange: (value: string) => void;
+    transcriptOrientation: boolean;
+    onTranscriptOrientationChange: (value: boolean) => void;
+    tracks: TrackConfig[];
+    onTracksChange: (tracks: TrackConfig[]) => void;
+    loadProgress: { [input: string]: number }; // inputs being read, keyed by "gtf", "fasta", "junctions" or signal track id
+    lineErrors: { [input: string]: LineError[] };
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
     gtfStatus,
     onGTFUpload,
-    donorsStatus,
-    acceptorsStatus,
-    onBEDUpload,
+    onFastaUpload,
+    referenceFileName,
+    onJunctionUpload,
+    junctionFileName,
+    junctionSource,
+    onJunctionSourceChange,
+    onSiteNamesUpload,
+    siteNameCount,
+    onClearSiteNames,
+    palette,
+    onPaletteChange,
+    darkMode,
+    onDarkModeChange,
+    siteLineStyle,
+    onSiteLineStyleChange,
+    signalTracks,
+    onSignalTrackUpload,
+    onSiteListUpload,
+    discoveredPositions,
+    onAddSignalTrack,
+    onRemoveSignalTrack,
+    onAddComparisonTrack,
+    onSignalTrackChange,
+    onLoadExample,
+    onSaveSession,
+    onLoadSession,
+    onClearSavedSession,
     zoomWidth,
     onZoomWidthChange,
     zoomWindowWidth,
@@ -37,7 +124,108 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     onWidthChange,
     height,
     onHeightChange,
+    sampleGroupMode,
+    onSampleGroupModeChange,
+    sampleGroupPattern,
+    onSampleGroupPatternChange,
+    sampleGroupError,
+    onSampleSheetUpload,
+    groupDisplay,
+    onGroupDisplayChange,
+    timepointMode,
+    onTimepointModeChange,
+    timepointPattern,
+    onTimepointPatternChange,
+    timepointError,
+    onTimepointSheetUpload,
+    timepointSummary,
+    viewRange,
+    onViewRangeChange,
+    onRegionChange,
+    sequenceIds,
+    selectedSeqid,
+    onSeqidChange,
+    transcriptOrientation,
+    onTranscriptOrientationChange,
+    tracks,
+    onTracksChange,
+    loadProgress,
+    lineErrors,
 }) => {
+    const [exampleVariant, setExampleVariant] = useState<ExampleVariant>("full");
+    const [regionText, setRegionText] = useState<string>("");
+    const [regionError, setRegionError] = useState<string>("");
+    const [positionErrors, setPositionErrors] = useState<{ [trackId: string]: string }>({});
+
+    // keep the region box in sync with brushing and panning in the plot
+    useEffect(() => {
+        setRegionText(viewRange ? formatRegion({ seqid: selectedSeqid || null, start: viewRange[0], end: viewRange[1] }) : "");
+        setRegionError("");
+    }, [viewRange, selectedSeqid]);
+
+    const applyRegion = () => {
+        try {
+            const region = parseRegion(regionText);
+            onRegionChange(region);
+            setRegionError("");
+        } catch (error) {
+            setRegionError((error as Error).message);
+        }
+    };
+
+    const applyPositionList = (trackId: string, key: "customPositions" | "excludedPositions", text: string) => {
+        try {
+            onSignalTrackChange(trackId, { [key]: parsePositionList(text) });
+            setPositionErrors({ ...positionErrors, [`${trackId}:${key}`]: "" });
+        } catch (error) {
+            setPositionErrors({ ...positionErrors, [`${trackId}:${key}`]: (error as Error).message });
+        }
+    };
+
+    // invalid thresholds keep the previous one
+    const applyDiscoverThreshold = (trackId: string, text: string) => {
+        const threshold = Number(text);
+        if (text !== "" && Number.isFinite(threshold) && threshold >= 0) {
+            onSignalTrackChange(trackId, { discoverThreshold: threshold });
+        }
+    };
+
+    // an empty field goes back to the automatic bound
+    const applyYBound = (trackId: string, key: "yMin" | "yMax", text: string) => {
+        const track = signalTracks.find(signalTrack => signalTrack.id === trackId);
+        const value = text.trim() === "" ? null : Number(text);
+        const yMin = key === "yMin" ? value : track?.yMin ?? null;
+        const yMax = key === "yMax" ? value : track?.yMax ?? null;
+        let error = "";
+        if (value !== null && !Number.isFinite(value)) {
+            error = `Invalid number "${text}"`;
+        }
+        else if (yMin !== null && yMax !== null && yMin >= yMax) {
+            error = "The y minimum must be below the maximum";
+        }
+        else {
+            onSignalTrackChange(trackId, { [key]: value });
+        }
+        setPositionErrors({ ...positionErrors, [`${trackId}:yBounds`]: error });
+    };
+
+    const trackLabel = (id: string) => trackLabels[id] ?? signalTracks.find(track => track.id === id)?.name ?? id;
+
+    const updateTrack = (index: number, changes: Partial<TrackConfig>) => {
+        onTracksChange(tracks.map((track, i) => i === index ? { ...track, ...changes } : track));
+    };
+
+    // swap a track with its neighbour above (-1) or below (+1)
+    const moveTrack = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= tracks.length) {
+            return;
+        }
+        const reordered = [...tracks];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onTracksChange(reordered);
+    };
+
     // Help tooltip content for each file type
     const tooltips = {
         gtf: (
@@ -47,7 +235,27 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     {'chr1\tVIRUS\texon\t1000\t1200\t.\t+\t.\tgene_id "gene1"; transcript_id "transcript1";\n' +
                         'chr1\tVIRUS\tCDS\t1050\t1150\t.\t+\t0\tgene_id "gene1"; transcript_id "transcript1";'}
                 </pre>
-                <div>GTF files contain gene annotations with 9 tab-separated columns.</div>
+                <div>GTF files contain gene annotations with 9 tab-separated columns. Files may be gzip or bgzip compressed.</div>
+            </Tooltip>
+        ),
+        fasta: (
+            <Tooltip id="fasta-tooltip" className="tooltip-hover">
+                <strong>FASTA File Example:</strong>
+                <pre style={{ fontSize: '0.8rem', marginTop: '0.5rem' }}>
+                    {'>K03455.1 HIV-1 HXB2\n' +
+                        'TGGAAGGGCTAATTCACTCCCAACGAAGACAAGATATCC'}
+                </pre>
+                <div>Reference sequence shown under the zoom cells, with canonical GT/AG dinucleotides highlighted. Sequence names must match the GTF. Count table tracks are drawn as a sequence logo instead.</div>
+            </Tooltip>
+        ),
+        junctions: (
+            <Tooltip id="junctions-tooltip" className="tooltip-hover">
+                <strong>Junction File Example (STAR SJ.out.tab):</strong>
+                <pre style={{ fontSize: '0.8rem', marginTop: '0.5rem' }}>
+                    {'K03455.1\t744\t4961\t1\t1\t1\t2051\t3\t45\n' +
+                        'K03455.1\t744\t5388\t1\t1\t1\t812\t0\t41'}
+                </pre>
+                <div>Splice junctions drawn as arcs from donor to acceptor, their width scaled by the unique read count. BED12 files with the read count in the score column are read as well.</div>
             </Tooltip>
         ),
         donors: (
@@ -58,7 +266,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     'K03455.1\t738\t11\t2\t2051\t13\t0\n' +
                     'K03455.1\t739\t1652\t7\t406\t8\t4'}
                 </pre>
-                <div>Donor splice junction files contain genomic coordinates and data for each nucleotide. Expects header.</div>
+                <div>Donor splice junction files contain genomic coordinates and data for each nucleotide. Expects header. Scored by the fraction of the dominant base. BED files (seqid, start, end, sample, score, strand) are also accepted.</div>
             </Tooltip>
         ),
         acceptors: (
@@ -69,7 +277,50 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     'K03455.1\t738\t11\t2\t2051\t13\t0\n' +
                     'K03455.1\t739\t1652\t7\t406\t8\t4'}
                 </pre>
-                <div>Acceptor splice junction files contain genomic coordinates and data for each nucleotide. Expects header.</div>
+                <div>Acceptor splice junction files contain genomic coordinates and data for each nucleotide. Expects header. Scored by the fraction of the dominant base. BED files (seqid, start, end, sample, score, strand) are also accepted.</div>
+            </Tooltip>
+        ),
+        custom: (
+            <Tooltip id="custom-tooltip" className="tooltip-hover">
+                <strong>Signal BED File Example:</strong>
+                <pre style={{ fontSize: '0.8rem', marginTop: '0.5rem' }}>
+                    {'K03455.1\t737\t738\tAY69A10p6\t0.92\t+\n' +
+                    'K03455.1\t738\t739\tAY69A10p6\t0.81\t+'}
+                </pre>
+                <div>Any per-position signal, one line per sample and position with the sample name in the name column. Count tables with a seqid/position/A/C/G/T/N header are also accepted, as are gzip or bgzip compressed files.</div>
+            </Tooltip>
+        ),
+        siteNames: (
+            <Tooltip id="site-names-tooltip" className="tooltip-hover">
+                <strong>Site Name Mapping Example:</strong>
+                <pre style={{ fontSize: '0.8rem', marginTop: '0.5rem' }}>
+                    {'seqid\tposition\tname\n' +
+                    'K03455.1\t743\tD1\n' +
+                    'K03455.1\t5389\tA5'}
+                </pre>
+                <div>Canonical names for donor, acceptor or custom sites, replacing the automatic D1, A1... numbering. The seqid column is optional. Labels can also be renamed by double-clicking them in the plot.</div>
+            </Tooltip>
+        ),
+        sampleSheet: (
+            <Tooltip id="sample-sheet-tooltip" className="tooltip-hover">
+                <strong>Sample Sheet Example:</strong>
+                <pre style={{ fontSize: '0.8rem', marginTop: '0.5rem' }}>
+                    {'sample\tgroup\n' +
+                    'AY69A10p6\tcontrol\n' +
+                    'AY69A4p3\ttreated'}
+                </pre>
+                <div>Maps sample names from the BED name column to groups. Tab or comma separated.</div>
+            </Tooltip>
+        ),
+        timepointSheet: (
+            <Tooltip id="timepoint-sheet-tooltip" className="tooltip-hover">
+                <strong>Timepoint Sheet Example:</strong>
+                <pre style={{ fontSize: '0.8rem', marginTop: '0.5rem' }}>
+                    {'sample\tsubject\ttime\n' +
+                    'AY69A4p3\tA4\t3\n' +
+                    'AY69A4p6\tA4\t6'}
+                </pre>
+                <div>Maps sample names from the BED name column to a subject and a numeric timepoint. Tab or comma separated.</div>
             </Tooltip>
         ),
     };
@@ -81,7 +332,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         onChange,
         errorStatus,
         errorMessage,
-        tooltipContent
+        tooltipContent,
+        progress,
+        lineErrors = []
     }: {
         id: string;
         label: string;
@@ -89,6 +342,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         errorStatus?: number;
         errorMessage?: string;
         tooltipContent: JSX.Element;
+        progress?: number;
+        lineErrors?: LineError[];
     }) => {
         const [show, setShow] = useState(false);
 
@@ -115,9 +370,19 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     {label}
                 </Form.Label>
                 <Form.Control type="file" onChange={onChange} />
+                {progress !== undefined && (
+                    <ProgressBar className="mt-1 upload-progress" now={Math.round(progress * 100)} />
+                )}
                 {errorStatus === -1 && (
                     <div className="text-danger">{errorMessage}</div>
                 )}
+                {lineErrors.length > 0 && (
+                    <ul className="line-errors text-danger">
+                        {lineErrors.map(error => (
+                            <li key={error.line}>{formatLineError(error)}</li>
+                        ))}
+                    </ul>
+                )}
             </Form.Group>
         );
     };
@@ -128,6 +393,41 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 <Card.Body className="settings-body">
                     <Card.Title className="settings-title">Settings</Card.Title>
                     <Form>
+                        {/* Session file with all inputs and settings */}
+                        <Form.Group controlId="sessionFile" className="mb-3">
+                            <Form.Label>Session</Form.Label>
+                            <InputGroup>
+                                <Form.Control type="file" accept=".json,application/json" onChange={onLoadSession} />
+                                <Button variant="outline-primary" onClick={onSaveSession}>
+                                    Save
+                                </Button>
+                            </InputGroup>
+                            <Form.Text muted>Load or save a session file with all data and settings.</Form.Text>
+                            <div>
+                                <Button variant="link" size="sm" className="px-0" onClick={onClearSavedSession}>
+                                    Clear saved session
+                                </Button>
+                            </div>
+                        </Form.Group>
+
+                        {/* Bundled example dataset */}
+                        <Form.Group controlId="exampleVariant" className="mb-3">
+                            <Form.Label>Example Data</Form.Label>
+                            <InputGroup>
+                                <Form.Select
+                                    value={exampleVariant}
+                                    onChange={(e) => setExampleVariant(e.target.value as ExampleVariant)}
+                                >
+                                    {(Object.keys(exampleDatasets) as ExampleVariant[]).map(variant => (
+                                        <option key={variant} value={variant}>{exampleDatasets[variant].label}</option>
+                                    ))}
+                                </Form.Select>
+                                <Button variant="outline-primary" onClick={() => onLoadExample(exampleVariant)}>
+                                    Load example
+                                </Button>
+                            </InputGroup>
+                        </Form.Group>
+
                         {/* GTF Upload with help tooltip */}
                         <UploadFieldWithHelp
                             id="gtfUpload"
@@ -136,27 +436,399 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                             errorStatus={gtfStatus}
                             errorMessage="Error parsing GTF file"
                             tooltipContent={tooltips.gtf}
+                            progress={loadProgress.gtf}
+                            lineErrors={lineErrors.gtf}
                         />
 
-                        {/* Donors SJ Upload with help tooltip */}
                         <UploadFieldWithHelp
-                            id="donorsBedUpload"
-                            label="Donors BED"
-                            onChange={(e) => onBEDUpload("donors", e)}
-                            errorStatus={donorsStatus}
-                            errorMessage="Error parsing donors file"
-                            tooltipContent={tooltips.donors}
+                            id="fastaUpload"
+                            label={referenceFileName !== "" ? referenceFileName : "Reference FASTA (optional)"}
+                            onChange={onFastaUpload}
+                            tooltipContent={tooltips.fasta}
+                            progress={loadProgress.fasta}
+                            lineErrors={lineErrors.fasta}
                         />
 
-                        {/* Acceptors SJ Upload with help tooltip */}
+                        {/* Signal tracks: one BED or count file each */}
+                        <div className="bed-files-header">
+                            <Form.Label>Signal Tracks</Form.Label>
+                            <Button variant="outline-primary" size="sm" className="add-bed-file-btn" onClick={onAddSignalTrack}>
+                                <PlusCircle /> Add track
+                            </Button>
+                        </div>
+                        {signalTracks.map(track => (
+                            <div key={track.id} className="signal-track">
+                                <div className="bed-file-row">
+                                    <Form.Control
+                                        type="text"
+                                        size="sm"
+                                        value={track.name}
+                                        aria-label="Track name"
+                                        onChange={(e) => onSignalTrackChange(track.id, { name: e.target.value })}
+                                    />
+                                    <Form.Control
+                                        type="color"
+                                        size="sm"
+                                        value={track.color}
+                                        title="Track color"
+                                        onChange={(e) => onSignalTrackChange(track.id, { color: e.target.value })}
+                                    />
+                                    <Button variant="outline-danger" size="sm" className="remove-bed-file-btn" title="Remove track" onClick={() => onRemoveSignalTrack(track.id)}>
+                                        <Trash />
+                                    </Button>
+                                </div>
+                                <UploadFieldWithHelp
+                                    id={`${track.id}BedUpload`}
+                                    label={track.bedFile.fileName !== "" ? track.bedFile.fileName : "BED or count file"}
+                                    onChange={(e) => onSignalTrackUpload(track.id, e)}
+                                    errorStatus={track.bedFile.status}
+                                    errorMessage={`Error parsing ${track.name} file`}
+                                    tooltipContent={tooltips[track.anchor]}
+                                    progress={loadProgress[track.id]}
+                                    lineErrors={lineErrors[track.id]}
+                                />
+                                <div className="bed-file-row mb-2">
+                                    <Form.Select
+                                        size="sm"
+                                        value={track.plotType}
+                                        aria-label="Plot type"
+                                        onChange={(e) => onSignalTrackChange(track.id, { plotType: e.target.value as SignalPlotType })}
+                                    >
+                                        <option value="box">Box</option>
+                                        <option value="bar">Bar</option>
+                                        <option value="line">Line</option>
+                                    </Form.Select>
+                                    <Form.Select
+                                        size="sm"
+                                        value={track.anchor}
+                                        aria-label="Zoom cell anchor"
+                                        onChange={(e) => onSignalTrackChange(track.id, { anchor: e.target.value as SignalAnchor })}
+                                    >
+                                        <option value="donors">Zoom on donors</option>
+                                        <option value="acceptors">Zoom on acceptors</option>
+                                        <option value="custom">Zoom on positions</option>
+                                    </Form.Select>
+                                </div>
+                                {/* Second condition drawn in the zoom cells of this track */}
+                                <div className="bed-file-row mb-2">
+                                    <Form.Select
+                                        size="sm"
+                                        value={track.compareWith ?? ""}
+                                        aria-label="Compare with"
+                                        title="Draw another track as condition B in the zoom cells of this one"
+                                        onChange={(e) => onSignalTrackChange(track.id, { compareWith: e.target.value === "" ? null : e.target.value })}
+                                    >
+                                        <option value="">No comparison</option>
+                                        {signalTracks.filter(other => other.id !== track.id).map(other => (
+                                            <option key={other.id} value={other.id}>Compare with {other.name}</option>
+                                        ))}
+                                    </Form.Select>
+                                    {track.compareWith !== null ? (
+                                        <Form.Select
+                                            size="sm"
+                                            value={track.compareDisplay}
+                                            aria-label="Comparison display"
+                                            onChange={(e) => onSignalTrackChange(track.id, { compareDisplay: e.target.value as CompareDisplay })}
+                                        >
+                                            <option value="mirror">A above, B below</option>
+                                            <option value="delta">Difference A - B</option>
+                                        </Form.Select>
+                                    ) : (
+                                        <Button variant="outline-primary" size="sm" onClick={() => onAddComparisonTrack(track.id)}>
+                                            Add condition B
+                                        </Button>
+                                    )}
+                                </div>
+                                <div className="bed-file-row mb-2">
+                                    <Form.Select
+                                        size="sm"
+                                        value={track.yScale}
+                                        aria-label="Zoom cell y scale"
+                                        onChange={(e) => onSignalTrackChange(track.id, { yScale: e.target.value as YScaleType })}
+                                    >
+                                        {(Object.keys(yScaleLabels) as YScaleType[]).map(type => (
+                                            <option key={type} value={type}>{yScaleLabels[type]} scale</option>
+                                        ))}
+                                    </Form.Select>
+                                    <Form.Select
+                                        size="sm"
+                                        value={track.yDomain}
+                                        aria-label="Zoom cell y domain"
+                                        title="Scale all zoom cells of the track alike, or each on its own so that low usage sites are not flattened"
+                                        onChange={(e) => onSignalTrackChange(track.id, { yDomain: e.target.value as YDomainMode })}
+                                    >
+                                        <option value="shared">Shared y axis</option>
+                                        <option value="site">Per-site y axes</option>
+                                    </Form.Select>
+                                </div>
+                                <div className="bed-file-row mb-2">
+                                    {(["yMin", "yMax"] as const).map(key => (
+                                        <Form.Control
+                                            key={`${key}:${track[key]}`}
+                                            type="number"
+                                            size="sm"
+                                            step={0.05}
+                                            placeholder={key === "yMin" ? "y min: 0" : "y max: auto"}
+                                            defaultValue={track[key] ?? ""}
+                                            aria-label={key === "yMin" ? "Y axis minimum" : "Y axis maximum"}
+                                            onBlur={(e) => applyYBound(track.id, key, e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === "Enter") {
+                                                    e.preventDefault();
+                                                    applyYBound(track.id, key, e.currentTarget.value);
+                                                }
+                                            }}
+                                        />
+                                    ))}
+                                </div>
+                                {positionErrors[`${track.id}:yBounds`] && (
+                                    <div className="text-danger mb-2">{positionErrors[`${track.id}:yBounds`]}</div>
+                                )}
+                                {/* Sites with a zoom cell besides the annotated ones, and annotated ones without */}
+                                {(["customPositions", "excludedPositions"] as const).map(key => (
+                                    <Form.Group key={key} controlId={`${track.id}-${key}`} className="mb-2">
+                                        <Form.Label className="small mb-0">
+                                            {key === "excludedPositions" ? "Hidden sites" : track.anchor === "custom" ? "Positions" : "Extra sites"}
+                                        </Form.Label>
+                                        <Form.Control
+                                            // remount when the list changes outside the field, e.g. by an upload
+                                            key={track[key].join(",")}
+                                            type="text"
+                                            size="sm"
+                                            placeholder={key === "excludedPositions" ? "e.g. 5776" : "e.g. 743, 4962, 5389"}
+                                            defaultValue={track[key].join(", ")}
+                                            onBlur={(e) => applyPositionList(track.id, key, e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === "Enter") {
+                                                    e.preventDefault();
+                                                    applyPositionList(track.id, key, e.currentTarget.value);
+                                                }
+                                            }}
+                                        />
+                                        {positionErrors[`${track.id}:${key}`] && (
+                                            <div className="text-danger">{positionErrors[`${track.id}:${key}`]}</div>
+                                        )}
+                                    </Form.Group>
+                                ))}
+                                <Form.Group controlId={`${track.id}SiteList`} className="mb-2">
+                                    <Form.Label className="small mb-0">Add sites from a BED or TSV list</Form.Label>
+                                    <Form.Control type="file" size="sm" onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSiteListUpload(track.id, e)} />
+                                </Form.Group>
+                                <div className="bed-file-row mb-2">
+                                    <Form.Check
+                                        type="switch"
+                                        id={`${track.id}Discover`}
+                                        label="Discover sites"
+                                        title="Add zoom cells at unannotated positions whose mean score reaches the threshold"
+                                        checked={track.discoverThreshold !== null}
+                                        onChange={(e) => onSignalTrackChange(track.id, { discoverThreshold: e.target.checked ? 0.5 : null })}
+                                    />
+                                    {track.discoverThreshold !== null && (
+                                        <Form.Control
+                                            key={track.discoverThreshold}
+                                            type="number"
+                                            size="sm"
+                                            min={0}
+                                            step={0.05}
+                                            defaultValue={track.discoverThreshold}
+                                            aria-label="Minimum mean score"
+                                            onBlur={(e) => applyDiscoverThreshold(track.id, e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === "Enter") {
+                                                    e.preventDefault();
+                                                    applyDiscoverThreshold(track.id, e.currentTarget.value);
+                                                }
+                                            }}
+                                        />
+                                    )}
+                                </div>
+                                {track.discoverThreshold !== null && (
+                                    <div className="discovered-sites mb-3">
+                                        {(discoveredPositions[track.id] ?? []).length > 0 ? (
+                                            <>
+                                                <span>Discovered: {discoveredPositions[track.id].join(", ")}</span>
+                                                <Button
+                                                    variant="outline-primary"
+                                                    size="sm"
+                                                    title="Keep the discovered sites as extra sites and stop discovering"
+                                                    onClick={() => onSignalTrackChange(track.id, {
+                                                        customPositions: Array.from(new Set([...track.customPositions, ...discoveredPositions[track.id]]))
+                                                            .sort((a, b) => a - b),
+                                                        discoverThreshold: null,
+                                                    })}
+                                                >
+                                                    Keep
+                                                </Button>
+                                            </>
+                                        ) : (
+                                            <span>No unannotated position reaches the threshold</span>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+
+                        {/* Junction track: annotated introns or an uploaded junction file */}
+                        <Form.Group controlId="junctionSource" className="mb-3">
+                            <Form.Label>Junctions</Form.Label>
+                            <Form.Select
+                                size="sm"
+                                value={junctionSource}
+                                onChange={(e) => onJunctionSourceChange(e.target.value as JunctionSource)}
+                            >
+                                <option value="annotation">Annotated introns (width by donor usage)</option>
+                                <option value="file">Junction file (width by reads)</option>
+                            </Form.Select>
+                        </Form.Group>
+                        {junctionSource === "file" && (
+                            <UploadFieldWithHelp
+                                id="junctionUpload"
+                                label={junctionFileName !== "" ? junctionFileName : "STAR SJ.out.tab or BED12"}
+                                onChange={onJunctionUpload}
+                                tooltipContent={tooltips.junctions}
+                                progress={loadProgress.junctions}
+                                lineErrors={lineErrors.junctions}
+                            />
+                        )}
+
                         <UploadFieldWithHelp
-                            id="acceptorsBedUpload"
-                            label="Acceptors BED"
-                            onChange={(e) => onBEDUpload("acceptors", e)}
-                            errorStatus={acceptorsStatus}
-                            errorMessage="Error parsing acceptors file"
-                            tooltipContent={tooltips.acceptors}
+                            id="siteNamesUpload"
+                            label={siteNameCount > 0 ? `Site names (${siteNameCount} named)` : "Site name mapping (optional)"}
+                            onChange={onSiteNamesUpload}
+                            tooltipContent={tooltips.siteNames}
                         />
+                        {siteNameCount > 0 && (
+                            <Button variant="outline-secondary" size="sm" className="mb-3" onClick={onClearSiteNames}>
+                                Reset to automatic names
+                            </Button>
+                        )}
+
+                        {/* Sequence to plot when the GTF annotates more than one */}
+                        {sequenceIds.length > 1 && (
+                            <Form.Group controlId="sequence" className="mb-3">
+                                <Form.Label>Sequence</Form.Label>
+                                <Form.Select
+                                    value={selectedSeqid}
+                                    onChange={(e) => onSeqidChange(e.target.value)}
+                                >
+                                    {sequenceIds.map(seqid => (
+                                        <option key={seqid} value={seqid}>{seqid}</option>
+                                    ))}
+                                </Form.Select>
+                            </Form.Group>
+                        )}
+
+                        {/* Genomic window shown on the full genome tracks */}
+                        <Form.Group controlId="region" className="mb-3">
+                            <Form.Label>Region</Form.Label>
+                            <InputGroup>
+                                <Form.Control
+                                    type="text"
+                                    value={regionText}
+                                    placeholder="M33262.1:5000-6500"
+                                    onChange={(e) => setRegionText(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") {
+                                            e.preventDefault();
+                                            applyRegion();
+                                        }
+                                    }}
+                                />
+                                <Button variant="outline-primary" onClick={applyRegion}>Go</Button>
+                                <Button variant="outline-secondary" onClick={() => onViewRangeChange(null)}>Reset</Button>
+                            </InputGroup>
+                            <Form.Text muted>Drag across the transcripts to zoom, shift+drag to pan.</Form.Text>
+                            {regionError !== "" && (
+                                <div className="text-danger">{regionError}</div>
+                            )}
+                        </Form.Group>
+
+                        <Form.Group controlId="transcriptOrientation" className="mb-3">
+                            <Form.Check
+                                type="switch"
+                                label="Zoom windows in transcript orientation"
+                                checked={transcriptOrientation}
+                                onChange={(e) => onTranscriptOrientationChange(e.target.checked)}
+                            />
+                            <Form.Text muted>Minus-strand sites are drawn 5' to 3' (right to left in genome coordinates).</Form.Text>
+                        </Form.Group>
+
+                        {/* Theme: palette, background and site line style, carried into exported figures */}
+                        <Form.Group controlId="palette" className="mb-3">
+                            <Form.Label>Color Palette</Form.Label>
+                            <Form.Select
+                                value={palette}
+                                onChange={(e) => onPaletteChange(e.target.value as PaletteName)}
+                            >
+                                {[false, true].map(colorblindSafe => (
+                                    <optgroup key={String(colorblindSafe)} label={colorblindSafe ? "Colorblind safe" : "Other"}>
+                                        {(Object.keys(palettes) as PaletteName[])
+                                            .filter(name => palettes[name].colorblindSafe === colorblindSafe)
+                                            .map(name => (
+                                                <option key={name} value={name}>{palettes[name].label}</option>
+                                            ))}
+                                    </optgroup>
+                                ))}
+                            </Form.Select>
+                            <Form.Text muted>Recolors all signal tracks. Use the color pickers to adjust single tracks.</Form.Text>
+                        </Form.Group>
+
+                        <Form.Group controlId="siteLineStyle" className="mb-3">
+                            <Form.Label>Site Lines</Form.Label>
+                            <Form.Select
+                                value={siteLineStyle}
+                                onChange={(e) => onSiteLineStyleChange(e.target.value as SiteLineStyle)}
+                            >
+                                <option value="dashed">Dashed</option>
+                                <option value="dotted">Dotted</option>
+                                <option value="solid">Solid</option>
+                            </Form.Select>
+                        </Form.Group>
+
+                        <Form.Group controlId="darkMode" className="mb-3">
+                            <Form.Check
+                                type="switch"
+                                label="Dark background (presentation mode)"
+                                checked={darkMode}
+                                onChange={(e) => onDarkModeChange(e.target.checked)}
+                            />
+                        </Form.Group>
+
+                        {/* Track visibility, order and relative height */}
+                        <Form.Group controlId="tracks" className="mb-3">
+                            <Form.Label>Tracks</Form.Label>
+                            {tracks.map((track, i) => (
+                                <div key={track.id} className="track-row">
+                                    <Form.Check
+                                        type="checkbox"
+                                        id={`track-${track.id}`}
+                                        label={trackLabel(track.id)}
+                                        checked={track.visible}
+                                        // at least one track has to stay visible
+                                        disabled={track.visible && tracks.filter(t => t.visible).length === 1}
+                                        onChange={(e) => updateTrack(i, { visible: e.target.checked })}
+                                    />
+                                    <Form.Control
+                                        type="number"
+                                        size="sm"
+                                        className="track-height"
+                                        min={0.05}
+                                        step={0.05}
+                                        value={track.height}
+                                        disabled={!track.visible}
+                                        onChange={(e) => {
+                                            const value = Number(e.target.value);
+                                            if (value > 0) {
+                                                updateTrack(i, { height: value });
+                                            }
+                                        }}
+                                    />
+                                    <Button variant="outline-secondary" size="sm" disabled={i === 0} onClick={() => moveTrack(i, -1)}>↑</Button>
+                                    <Button variant="outline-secondary" size="sm" disabled={i === tracks.length - 1} onClick={() => moveTrack(i, 1)}>↓</Button>
+                                </div>
+                            ))}
+                            <Form.Text muted>Heights are relative to each other.</Form.Text>
+                        </Form.Group>
 
                         {/* Numeric input fields */}
                         <Form.Group controlId="zoomWidth" className="mb-3">
@@ -203,6 +875,104 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                                 onChange={(e) => onHeightChange(Number(e.target.value))}
                             />
                         </Form.Group>
+
+                        {/* Sample grouping by BED name column */}
+                        <Form.Group controlId="sampleGroupMode" className="mb-3">
+                            <Form.Label>Sample Groups</Form.Label>
+                            <Form.Select
+                                value={sampleGroupMode}
+                                onChange={(e) => onSampleGroupModeChange(e.target.value as SampleGroupMode)}
+                            >
+                                <option value="none">None (pool all samples)</option>
+                                <option value="regex">By name pattern</option>
+                                <option value="sheet">By sample sheet</option>
+                            </Form.Select>
+                        </Form.Group>
+
+                        {sampleGroupMode === "regex" && (
+                            <Form.Group controlId="sampleGroupPattern" className="mb-3">
+                                <Form.Label>Group Pattern</Form.Label>
+                                <Form.Control
+                                    type="text"
+                                    value={sampleGroupPattern}
+                                    placeholder="^([A-Z]+)"
+                                    onChange={(e) => onSampleGroupPatternChange(e.target.value)}
+                                />
+                                <Form.Text muted>The first capture group names the group.</Form.Text>
+                                {sampleGroupError !== "" && (
+                                    <div className="text-danger">{sampleGroupError}</div>
+                                )}
+                            </Form.Group>
+                        )}
+
+                        {sampleGroupMode === "sheet" && (
+                            <UploadFieldWithHelp
+                                id="sampleSheetUpload"
+                                label="Sample Sheet"
+                                onChange={onSampleSheetUpload}
+                                tooltipContent={tooltips.sampleSheet}
+                            />
+                        )}
+
+                        {sampleGroupMode !== "none" && (
+                            <Form.Group controlId="groupDisplay" className="mb-3">
+                                <Form.Label>Group Display</Form.Label>
+                                <Form.Select
+                                    value={groupDisplay}
+                                    onChange={(e) => onGroupDisplayChange(e.target.value as SampleGroupDisplay)}
+                                >
+                                    <option value="box">Side-by-side boxes</option>
+                                    <option value="points">Jittered points</option>
+                                </Form.Select>
+                            </Form.Group>
+                        )}
+
+                        {/* Longitudinal view: subject and timepoint per sample */}
+                        <Form.Group controlId="timepointMode" className="mb-3">
+                            <Form.Label>Time Course</Form.Label>
+                            <Form.Select
+                                value={timepointMode}
+                                onChange={(e) => onTimepointModeChange(e.target.value as TimepointMode)}
+                            >
+                                <option value="none">Off</option>
+                                <option value="regex">Subject and time from name pattern</option>
+                                <option value="sheet">Subject and time from sheet</option>
+                            </Form.Select>
+                            {timepointMode !== "none" && (
+                                <Form.Text muted>Zoom cells show each site over time, one line per subject and the mean in bold.</Form.Text>
+                            )}
+                        </Form.Group>
+
+                        {timepointMode === "regex" && (
+                            <Form.Group controlId="timepointPattern" className="mb-3">
+                                <Form.Label>Timepoint Pattern</Form.Label>
+                                <Form.Control
+                                    type="text"
+                                    value={timepointPattern}
+                                    placeholder="(?<subject>A\d+)p(?<time>\d+)"
+                                    onChange={(e) => onTimepointPatternChange(e.target.value)}
+                                />
+                                <Form.Text muted>Named groups subject and time, or the first two capture groups.</Form.Text>
+                            </Form.Group>
+                        )}
+
+                        {timepointMode === "sheet" && (
+                            <UploadFieldWithHelp
+                                id="timepointSheetUpload"
+                                label="Timepoint Sheet"
+                                onChange={onTimepointSheetUpload}
+                                tooltipContent={tooltips.timepointSheet}
+                            />
+                        )}
+
+                        {timepointMode !== "none" && timepointError !== "" && (
+                            <div className="text-danger mb-3">{timepointError}</div>
+                        )}
+                        {timepointSummary && (
+                            <div className="small text-muted mb-3">
+                                {timepointSummary.subjects} subjects at timepoints {timepointSummary.times.join(", ")}
+                            </div>
+                        )}
                     </Form>
                 </Card.Body>
             </Card>
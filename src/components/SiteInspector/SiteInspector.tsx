@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { Button, Card, CloseButton, Table } from "react-bootstrap";
+import * as d3 from "d3";
+
+import { BedData } from "sparrowgenomelib";
+
+import { SampleGroups, groupLabel } from "../../utils/sampleGroups";
+import { summarizeScores } from "../../utils/siteStats";
+import { SampleTimepoints, timeCourse } from "../../utils/timepoints";
+import { createYScale } from "../../utils/yScales";
+import { SiteSelection } from "../SplicePlot/SplicePlot";
+import { TimeCoursePlot } from "../SplicePlot/TimeCoursePlot";
+import "./SiteInspector.css";
+
+interface SiteInspectorProps {
+    site: SiteSelection;
+    trackName: string;
+    bedData: BedData;
+    sampleGroups: SampleGroups | null;
+    timepoints: SampleTimepoints | null; // adds a chart of the site over time
+    trackColor: string;
+    onClose: () => void;
+    onExclude?: () => void; // removes the zoom cell of the position, only given for positions that have one
+}
+
+const chartSize = { width: 260, height: 140, axis: 28 };
+
+const SiteInspector: React.FC<SiteInspectorProps> = ({ site, trackName, bedData, sampleGroups, timepoints, trackColor, onClose, onExclude }) => {
+    const chartRef = useRef<SVGSVGElement | null>(null);
+
+    // per-sample values at the selected position, highest first
+    const samples = useMemo((): { name: string, score: number }[] => {
+        return bedData.getPos(site.position)
+            .filter(line => line.start === site.position)
+            .map(line => ({ name: line.name, score: line.score }))
+            .sort((a, b) => b.score - a.score);
+    }, [site, bedData]);
+
+    const summary = summarizeScores(samples.map(sample => sample.score));
+
+    // larger version of the time course drawn in the zoom cell, with its own axis
+    useEffect(() => {
+        if (!chartRef.current || !timepoints) {
+            return;
+        }
+        const svg = d3.select(chartRef.current);
+        svg.selectAll("*").remove();
+        const fontSize = 10;
+        const yScale = createYScale("linear", [0, d3.max(samples, sample => sample.score) || 1], [chartSize.height - 2, 2]);
+        svg.append("g")
+            .attr("transform", `translate(${chartSize.axis - 1}, 0)`)
+            .style("font-size", `${fontSize}px`)
+            .call(d3.axisLeft(yScale).ticks(4).tickSize(3));
+        const plotSvg = svg.append("svg")
+            .attr("x", chartSize.axis)
+            .attr("width", chartSize.width - chartSize.axis)
+            .attr("height", chartSize.height);
+        const timeCoursePlot = new TimeCoursePlot(plotSvg, {
+            dimensions: { width: chartSize.width - chartSize.axis, height: chartSize.height, x: 0, y: 0, fontSize: fontSize * 1.4 },
+            course: timeCourse(samples, timepoints),
+            times: timepoints.times,
+            yScale: yScale,
+            colors: timepoints.colors,
+            trendColor: trackColor,
+            textColor: "currentColor", // the inspector is not themed like the figure
+        });
+        timeCoursePlot.plot();
+    }, [samples, timepoints, trackColor]);
+
+    return (
+        <Card className="site-inspector">
+            <Card.Header className="site-inspector-header">
+                <span>{trackName} position {site.position}</span>
+                <CloseButton onClick={onClose} />
+            </Card.Header>
+            <Card.Body className="site-inspector-body">
+                {summary ? (
+                    <div className="site-inspector-summary">
+                        n={summary.n}, mean={summary.mean.toFixed(3)}, median={summary.median.toFixed(3)}
+                    </div>
+                ) : (
+                    <div className="site-inspector-summary">No samples at this position</div>
+                )}
+                {timepoints && (
+                    <svg ref={chartRef} className="site-inspector-chart" width={chartSize.width} height={chartSize.height} />
+                )}
+                <Table size="sm" striped hover>
+                    <thead>
+                        <tr>
+                            <th>Sample</th>
+                            {sampleGroups && <th>Group</th>}
+                            {timepoints && <th>Subject</th>}
+                            {timepoints && <th>Time</th>}
+                            <th>Score</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {samples.map(sample => (
+                            <tr key={sample.name}>
+                                <td>{sample.name}</td>
+                                {sampleGroups && (
+                                    <td style={{ color: sampleGroups.colors[sampleGroups.assignments.get(sample.name) ?? ""] }}>
+                                        {groupLabel(sampleGroups.assignments.get(sample.name) ?? "")}
+                                    </td>
+                                )}
+                                {timepoints && (
+                                    <td style={{ color: timepoints.colors[timepoints.assignments.get(sample.name)?.subject ?? ""] }}>
+                                        {timepoints.assignments.get(sample.name)?.subject}
+                                    </td>
+                                )}
+                                {timepoints && <td>{timepoints.assignments.get(sample.name)?.time}</td>}
+                                <td>{sample.score.toFixed(4)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </Table>
+                {onExclude && (
+                    <Button variant="outline-danger" size="sm" onClick={onExclude}>
+                        Remove zoom cell
+                    </Button>
+                )}
+            </Card.Body>
+        </Card>
+    );
+};
+
+export default SiteInspector;
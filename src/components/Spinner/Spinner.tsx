@@ -1,12 +1,22 @@
 import React from 'react';
+import { ProgressBar } from 'react-bootstrap';
 
 import hiv_atlas_logo from '../../assets/hiv_atlas.logo.crop.svg';
 import './Spinner.css';
 
-const Spinner: React.FC = () => {
+interface SpinnerProps {
+  message?: string;
+  progress?: number; // fraction done, between 0 and 1
+}
+
+const Spinner: React.FC<SpinnerProps> = ({ message, progress }) => {
   return (
     <div className="spinner">
       <img src={hiv_atlas_logo} style={{ height: '200px', marginRight: '15px' }} />
+      {message && <div className="spinner-message">{message}</div>}
+      {progress !== undefined && (
+        <ProgressBar className="spinner-progress" now={Math.round(progress * 100)} label={`${Math.round(progress * 100)}%`} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,182 @@
+import * as d3 from 'd3';
+
+import { CompareDisplay } from '../../utils/comparison';
+import { SignalPlotType } from '../../utils/signalTracks';
+import { summarizeScores } from '../../utils/siteStats';
+import { YScale } from '../../utils/yScales';
+
+interface ComparisonPlotDimensions {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+interface ComparisonPlotData {
+    dimensions: ComparisonPlotDimensions;
+    scoresA: Map<number, number[]>; // sample scores per position of condition A
+    scoresB: Map<number, number[]>;
+    start: number; // first position in the window (inclusive)
+    end: number; // last position in the window (inclusive)
+    reversed: boolean; // draw positions right to left
+    display: CompareDisplay;
+    plotType: SignalPlotType; // how each condition is drawn in the mirror display
+    yScaleA: YScale; // upper half, or the whole cell for the delta of the means
+    yScaleB: YScale; // lower half, unused for the delta display
+    colorA: string;
+    colorB: string;
+    strokeColor: string; // medians, whiskers and the zero line
+}
+
+// Two conditions in one zoom cell: A above the middle line and B mirrored below it, or the difference of their
+// means as bars growing up (A higher) or down (B higher) from zero
+export class ComparisonPlot {
+    private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private dimensions: ComparisonPlotDimensions;
+    private scoresA: Map<number, number[]>;
+    private scoresB: Map<number, number[]>;
+    private start: number;
+    private end: number;
+    private reversed: boolean;
+    private display: CompareDisplay;
+    private plotType: SignalPlotType;
+    private yScaleA: YScale;
+    private yScaleB: YScale;
+    private colorA: string;
+    private colorB: string;
+    private strokeColor: string;
+
+    constructor(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        data: ComparisonPlotData) {
+        this.svg = svg;
+        this.dimensions = data.dimensions;
+        this.scoresA = data.scoresA;
+        this.scoresB = data.scoresB;
+        this.start = data.start;
+        this.end = data.end;
+        this.reversed = data.reversed;
+        this.display = data.display;
+        this.plotType = data.plotType;
+        this.yScaleA = data.yScaleA;
+        this.yScaleB = data.yScaleB;
+        this.colorA = data.colorA;
+        this.colorB = data.colorB;
+        this.strokeColor = data.strokeColor;
+    }
+
+    public plot(): void {
+        const positions = d3.range(this.start, this.end + 1);
+        const positionScale = d3.scaleBand<number>()
+            .domain(this.reversed ? positions.slice().reverse() : positions)
+            .range([0, this.dimensions.width])
+            .paddingInner(0.2)
+            .paddingOuter(0.1);
+
+        const plotGroup = this.svg.append("g").attr("class", "comparison-plot");
+
+        if (this.display === "delta") {
+            this.plotDelta(plotGroup, positions, positionScale);
+        }
+        else {
+            this.plotCondition(plotGroup, this.scoresA, this.yScaleA, this.colorA, positionScale);
+            this.plotCondition(plotGroup, this.scoresB, this.yScaleB, this.colorB, positionScale);
+        }
+
+        const zero = this.display === "delta" ? this.yScaleA(0) : this.dimensions.height / 2;
+        plotGroup.append("line")
+            .attr("class", "comparison-baseline")
+            .attr("x1", 0)
+            .attr("x2", this.dimensions.width)
+            .attr("y1", zero)
+            .attr("y2", zero)
+            .attr("stroke", this.strokeColor)
+            .attr("stroke-width", 0.75);
+    }
+
+    private plotDelta(plotGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        positions: number[], positionScale: d3.ScaleBand<number>): void {
+        const zero = this.yScaleA(0);
+        positions.forEach(pos => {
+            const a = this.scoresA.get(pos);
+            const b = this.scoresB.get(pos);
+            if (!a && !b) {
+                return;
+            }
+            const delta = (d3.mean(a ?? []) ?? 0) - (d3.mean(b ?? []) ?? 0);
+            const y = this.yScaleA(delta);
+            plotGroup.append("rect")
+                .attr("x", positionScale(pos) || 0)
+                .attr("y", Math.min(y, zero))
+                .attr("width", positionScale.bandwidth())
+                .attr("height", Math.abs(y - zero))
+                .attr("fill", delta >= 0 ? this.colorA : this.colorB)
+                .append("title")
+                .text(`${pos}: Δ ${d3.format("+.3f")(delta)}`);
+        });
+    }
+
+    // One condition in its half of the cell. Its y scale starts at the middle line, so the same drawing code
+    // grows upwards for A and downwards for B.
+    private plotCondition(plotGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        scores: Map<number, number[]>, yScale: YScale, color: string, positionScale: d3.ScaleBand<number>): void {
+        const bandwidth = positionScale.bandwidth();
+        const means = Array.from(scores.entries())
+            .map(([pos, values]) => ({ pos, mean: d3.mean(values) ?? 0 }))
+            .sort((a, b) => a.pos - b.pos);
+
+        if (this.plotType === "line") {
+            const line = d3.line<{ pos: number, mean: number }>()
+                .x(d => (positionScale(d.pos) || 0) + bandwidth / 2)
+                .y(d => yScale(d.mean));
+            plotGroup.append("path")
+                .datum(means)
+                .attr("d", line)
+                .attr("fill", "none")
+                .attr("stroke", color)
+                .attr("stroke-width", 1.5);
+            return;
+        }
+
+        if (this.plotType === "bar") {
+            means.forEach(({ pos, mean }) => {
+                plotGroup.append("rect")
+                    .attr("x", positionScale(pos) || 0)
+                    .attr("y", Math.min(yScale(0), yScale(mean)))
+                    .attr("width", bandwidth)
+                    .attr("height", Math.abs(yScale(mean) - yScale(0)))
+                    .attr("fill", color);
+            });
+            return;
+        }
+
+        scores.forEach((values, pos) => {
+            const summary = summarizeScores(values);
+            if (!summary) {
+                return;
+            }
+            const x = positionScale(pos) || 0;
+            plotGroup.append("line")
+                .attr("x1", x + bandwidth / 2)
+                .attr("x2", x + bandwidth / 2)
+                .attr("y1", yScale(summary.lowerWhisker))
+                .attr("y2", yScale(summary.upperWhisker))
+                .attr("stroke", this.strokeColor);
+            plotGroup.append("rect")
+                .attr("x", x)
+                .attr("y", Math.min(yScale(summary.q1), yScale(summary.q3)))
+                .attr("width", bandwidth)
+                .attr("height", Math.abs(yScale(summary.q3) - yScale(summary.q1)))
+                .attr("fill", color)
+                .attr("stroke", this.strokeColor)
+                .attr("stroke-width", 0.5);
+            plotGroup.append("line")
+                .attr("x1", x)
+                .attr("x2", x + bandwidth)
+                .attr("y1", yScale(summary.median))
+                .attr("y2", yScale(summary.median))
+                .attr("stroke", this.strokeColor)
+                .attr("stroke-width", 1.5);
+        });
+    }
+}
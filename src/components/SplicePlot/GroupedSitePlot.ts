@@ -0,0 +1,177 @@
+import * as d3 from 'd3';
+
+import { BedData } from 'sparrowgenomelib';
+
+import { SampleGroups, SampleGroupDisplay, groupLabel } from '../../utils/sampleGroups';
+import { YScale } from '../../utils/yScales';
+
+interface GroupedSitePlotDimensions {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+interface GroupedSitePlotData {
+    dimensions: GroupedSitePlotDimensions;
+    bedData: BedData;
+    start: number; // first position in the window (inclusive)
+    end: number; // last position in the window (inclusive)
+    reversed: boolean; // draw positions right to left
+    yScale: YScale;
+    sampleGroups: SampleGroups;
+    display: SampleGroupDisplay;
+    strokeColor: string; // box outlines, medians and whiskers
+}
+
+// Draws one box (or a column of jittered points) per sample group at every position of a zoom window
+export class GroupedSitePlot {
+    private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private dimensions: GroupedSitePlotDimensions;
+    private bedData: BedData;
+    private start: number;
+    private end: number;
+    private reversed: boolean;
+    private yScale: YScale;
+    private sampleGroups: SampleGroups;
+    private display: SampleGroupDisplay;
+    private strokeColor: string;
+
+    constructor(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        data: GroupedSitePlotData) {
+        this.svg = svg;
+        this.dimensions = data.dimensions;
+        this.bedData = data.bedData;
+        this.start = data.start;
+        this.end = data.end;
+        this.reversed = data.reversed;
+        this.yScale = data.yScale;
+        this.sampleGroups = data.sampleGroups;
+        this.display = data.display;
+        this.strokeColor = data.strokeColor;
+    }
+
+    public plot(): void {
+        const positions = d3.range(this.start, this.end + 1);
+        const positionScale = d3.scaleBand<number>()
+            .domain(this.reversed ? positions.slice().reverse() : positions)
+            .range([0, this.dimensions.width])
+            .paddingInner(0.2)
+            .paddingOuter(0.1);
+        const groupScale = d3.scaleBand<string>()
+            .domain(this.sampleGroups.groups)
+            .range([0, positionScale.bandwidth()])
+            .padding(0.1);
+
+        // scores[position][group] = list of scores
+        const scores: Map<number, Map<string, number[]>> = new Map();
+        this.bedData.getData().forEach(line => {
+            const group = this.sampleGroups.assignments.get(line.name);
+            if (group === undefined) {
+                return; // placeholder entries and unknown samples are not drawn
+            }
+            if (!scores.has(line.start)) {
+                scores.set(line.start, new Map());
+            }
+            const groupScores = scores.get(line.start)!;
+            if (!groupScores.has(group)) {
+                groupScores.set(group, []);
+            }
+            groupScores.get(group)!.push(line.score);
+        });
+
+        const plotGroup = this.svg.append("g").attr("class", "grouped-site-plot");
+
+        positions.forEach(pos => {
+            const groupScores = scores.get(pos);
+            if (!groupScores) {
+                return;
+            }
+            const positionX = positionScale(pos) || 0;
+            for (const [group, values] of groupScores.entries()) {
+                const x = positionX + (groupScale(group) || 0);
+                const color = this.sampleGroups.colors[group];
+                if (this.display === "points") {
+                    this.plotPoints(plotGroup, values, x, groupScale.bandwidth(), color, pos);
+                } else {
+                    this.plotBox(plotGroup, values, x, groupScale.bandwidth(), color);
+                }
+            }
+        });
+    }
+
+    private plotBox(group: d3.Selection<SVGGElement, unknown, null, undefined>,
+        values: number[], x: number, width: number, color: string): void {
+        const sorted = values.slice().sort((a, b) => a - b);
+        const q1 = d3.quantile(sorted, 0.25) || 0;
+        const median = d3.quantile(sorted, 0.5) || 0;
+        const q3 = d3.quantile(sorted, 0.75) || 0;
+        const iqr = q3 - q1;
+        // whiskers extend to the most extreme values within 1.5 IQR of the box
+        const lowerWhisker = d3.min(sorted.filter(v => v >= q1 - 1.5 * iqr)) ?? q1;
+        const upperWhisker = d3.max(sorted.filter(v => v <= q3 + 1.5 * iqr)) ?? q3;
+        const center = x + width / 2;
+
+        group.append("line")
+            .attr("x1", center)
+            .attr("x2", center)
+            .attr("y1", this.yScale(lowerWhisker))
+            .attr("y2", this.yScale(upperWhisker))
+            .attr("stroke", this.strokeColor)
+            .attr("stroke-width", 1);
+
+        group.append("rect")
+            .attr("x", x)
+            .attr("y", this.yScale(q3))
+            .attr("width", width)
+            .attr("height", Math.max(0, this.yScale(q1) - this.yScale(q3)))
+            .attr("fill", color)
+            .attr("stroke", this.strokeColor)
+            .attr("stroke-width", 0.5);
+
+        group.append("line")
+            .attr("x1", x)
+            .attr("x2", x + width)
+            .attr("y1", this.yScale(median))
+            .attr("y2", this.yScale(median))
+            .attr("stroke", this.strokeColor)
+            .attr("stroke-width", 1);
+    }
+
+    private plotPoints(group: d3.Selection<SVGGElement, unknown, null, undefined>,
+        values: number[], x: number, width: number, color: string, pos: number): void {
+        // seed the jitter with the position so that re-renders do not move the points around
+        const jitter = d3.randomUniform.source(d3.randomLcg(pos / (this.end + 1)))(0, width);
+        const radius = Math.max(1, Math.min(3, width / 4));
+        values.forEach(value => {
+            group.append("circle")
+                .attr("cx", x + jitter())
+                .attr("cy", this.yScale(value))
+                .attr("r", radius)
+                .attr("fill", color)
+                .attr("fill-opacity", 0.7);
+        });
+    }
+}
+
+// Draws the sample group legend into a cell of the legend column
+export function plotSampleGroupLegend(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+    sampleGroups: Pick<SampleGroups, "groups" | "colors">, fontSize: number, textColor: string): void {
+    const legend = svg.append("g").attr("class", "sample-group-legend");
+    const rowHeight = fontSize * 1.4;
+    sampleGroups.groups.forEach((group, i) => {
+        const row = legend.append("g")
+            .attr("transform", `translate(4, ${i * rowHeight + fontSize / 2})`);
+        row.append("rect")
+            .attr("width", fontSize * 0.8)
+            .attr("height", fontSize * 0.8)
+            .attr("fill", sampleGroups.colors[group]);
+        row.append("text")
+            .attr("x", fontSize * 1.2)
+            .attr("y", fontSize * 0.7)
+            .style("font-size", `${fontSize}px`)
+            .attr("fill", textColor)
+            .text(groupLabel(group));
+    });
+}
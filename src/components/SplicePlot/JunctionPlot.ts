@@ -0,0 +1,108 @@
+import * as d3 from 'd3';
+
+import { Junction } from '../../utils/junctions';
+
+interface JunctionPlotDimensions {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+// a junction with the value its arc thickness is scaled by
+export interface WeightedJunction {
+    junction: Junction;
+    weight: number;
+    label: string; // shown at the apex and in the tooltip, e.g. the read count
+}
+
+interface JunctionPlotData {
+    dimensions: JunctionPlotDimensions;
+    junctions: WeightedJunction[];
+    xScale: d3.ScaleLinear<number, number>; // genomic position to x within the cell
+    color: string;
+    guideColor: string; // baseline
+    textColor: string;
+}
+
+// Sashimi-style arcs from donor to acceptor. Plus strand and unstranded junctions arc above the baseline in the
+// middle of the cell, minus strand junctions below it.
+export class JunctionPlot {
+    private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private dimensions: JunctionPlotDimensions;
+    private junctions: WeightedJunction[];
+    private xScale: d3.ScaleLinear<number, number>;
+    private color: string;
+    private guideColor: string;
+    private textColor: string;
+
+    constructor(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        data: JunctionPlotData) {
+        this.svg = svg;
+        this.dimensions = data.dimensions;
+        this.junctions = data.junctions;
+        this.xScale = data.xScale;
+        this.color = data.color;
+        this.guideColor = data.guideColor;
+        this.textColor = data.textColor;
+    }
+
+    public plot(): void {
+        const { width, height, fontSize } = this.dimensions;
+        const baseline = height / 2;
+        const [viewStart, viewEnd] = this.xScale.domain();
+
+        const plotGroup = this.svg.append("g").attr("class", "junctions");
+        plotGroup.append("line")
+            .attr("x1", 0)
+            .attr("x2", width)
+            .attr("y1", baseline)
+            .attr("y2", baseline)
+            .attr("stroke", this.guideColor);
+
+        const visible = this.junctions.filter(({ junction }) => junction.acceptor >= viewStart && junction.donor <= viewEnd);
+        const strokeScale = d3.scaleSqrt()
+            .domain([0, d3.max(visible, junction => junction.weight) || 1])
+            .range([1, 6]);
+        const labelSize = fontSize * 0.7;
+
+        visible
+            // thick arcs first so that thin ones stay visible on top
+            .sort((a, b) => b.weight - a.weight)
+            .forEach(({ junction, weight, label }) => {
+                const x1 = this.xScale(junction.donor);
+                const x2 = this.xScale(junction.acceptor);
+                const direction = junction.strand === "-" ? 1 : -1;
+                // control point at twice the apex height, scaled with the span but kept inside the cell
+                const apex = Math.min(baseline - labelSize - 2, Math.max(baseline * 0.3, (x2 - x1) * 0.5));
+                const path = d3.path();
+                path.moveTo(x1, baseline);
+                path.quadraticCurveTo((x1 + x2) / 2, baseline + direction * apex * 2, x2, baseline);
+
+                const arc = plotGroup.append("path")
+                    .attr("d", path.toString())
+                    .attr("fill", "none")
+                    .attr("stroke", this.color)
+                    .attr("stroke-opacity", 0.7)
+                    .attr("stroke-width", strokeScale(weight));
+                arc.append("title")
+                    .text(`${junction.seqid}:${junction.donor}-${junction.acceptor} (${junction.strand})\n${label}`);
+
+                // label the apex when the arc is wide enough to hold it
+                if (label !== "" && x2 - x1 > label.length * labelSize * 0.6) {
+                    plotGroup.append("text")
+                        .attr("x", (x1 + x2) / 2)
+                        .attr("y", baseline + direction * apex)
+                        .attr("dy", direction < 0 ? "-0.3em" : "1em")
+                        .attr("text-anchor", "middle")
+                        .style("font-size", `${labelSize}px`)
+                        .attr("fill", this.textColor)
+                        .text(label);
+                }
+            });
+
+        // arcs leaving the view window are cut at the cell border
+        this.svg.attr("overflow", "hidden");
+    }
+}
@@ -0,0 +1,205 @@
+import * as d3 from 'd3';
+
+import { NUCLEOTIDES, Nucleotide, NucleotideCounts } from '../../utils/nucleotideCounts';
+import { baseAt, complementBase, complementCounts } from '../../utils/fasta';
+import { Strand } from '../../utils/transcriptomeUtils';
+import { SiteType } from '../../utils/siteStats';
+
+interface SequenceContextPlotDimensions {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+interface SequenceContextPlotData {
+    dimensions: SequenceContextPlotDimensions;
+    top: number; // offset of the strip from the top of the zoom cell
+    start: number; // first position in the window (inclusive)
+    end: number; // last position in the window (inclusive)
+    reversed: boolean; // draw positions right to left, showing the minus strand
+    site: number;
+    siteType: SiteType | null; // canonical dinucleotide to highlight, null for custom positions
+    strand: Strand;
+    sequence: string | null; // reference sequence of the plotted seqid
+    composition: Map<number, NucleotideCounts> | null; // base counts per position, drawn as a logo when present
+    highlightColor: string; // background of the canonical dinucleotide
+}
+
+export const nucleotideColors: { [nt in Nucleotide]: string } = {
+    A: "#109648",
+    C: "#255C99",
+    G: "#F7B32B",
+    T: "#D62839",
+    N: "#999999",
+};
+
+// intron side dinucleotides of canonical splice sites, read 5' to 3' on the transcript strand
+const canonicalMotifs: { [site in SiteType]: string } = {
+    donors: "GT",
+    acceptors: "AG",
+};
+
+// cap height of the font relative to its size, used to scale logo letters to their stack height
+const CAP_HEIGHT = 0.72;
+
+// Sequence strip or sequence logo under a zoom cell. Positions line up with SignalSummaryPlot.
+export class SequenceContextPlot {
+    private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private dimensions: SequenceContextPlotDimensions;
+    private top: number;
+    private start: number;
+    private end: number;
+    private reversed: boolean;
+    private site: number;
+    private siteType: SiteType | null;
+    private strand: Strand;
+    private sequence: string | null;
+    private composition: Map<number, NucleotideCounts> | null;
+    private highlightColor: string;
+
+    constructor(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        data: SequenceContextPlotData) {
+        this.svg = svg;
+        this.dimensions = data.dimensions;
+        this.top = data.top;
+        this.start = data.start;
+        this.end = data.end;
+        this.reversed = data.reversed;
+        this.site = data.site;
+        this.siteType = data.siteType;
+        this.strand = data.strand;
+        this.sequence = data.sequence;
+        this.composition = data.composition;
+        this.highlightColor = data.highlightColor;
+    }
+
+    // Plus strand base at a position: from the reference, or the most common base of the counts without one
+    private baseAt(pos: number): Nucleotide {
+        if (this.sequence) {
+            return baseAt(this.sequence, pos);
+        }
+        const counts = this.composition?.get(pos);
+        if (!counts) {
+            return "N";
+        }
+        const best = (["A", "C", "G", "T"] as const).reduce((a, b) => counts[b] > counts[a] ? b : a);
+        return counts[best] > 0 ? best : "N";
+    }
+
+    // Positions of the canonical dinucleotide closest to the site, within 2 bp of it
+    private canonicalPositions(): number[] {
+        if (!this.siteType) {
+            return [];
+        }
+        const motif = canonicalMotifs[this.siteType];
+        let best: number[] = [];
+        let bestDistance = Infinity;
+        for (let pos = this.start; pos < this.end; pos++) {
+            // the motif is read on the transcript strand, i.e. reverse complemented on the minus strand
+            const pair = this.strand === "-"
+                ? complementBase(this.baseAt(pos + 1)) + complementBase(this.baseAt(pos))
+                : this.baseAt(pos) + this.baseAt(pos + 1);
+            const distance = Math.min(Math.abs(pos - this.site), Math.abs(pos + 1 - this.site));
+            if (pair === motif && distance <= 2 && distance < bestDistance) {
+                best = [pos, pos + 1];
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    public plot(): void {
+        const positions = d3.range(this.start, this.end + 1);
+        const positionScale = d3.scaleBand<number>()
+            .domain(this.reversed ? positions.slice().reverse() : positions)
+            .range([0, this.dimensions.width])
+            .paddingInner(0.2)
+            .paddingOuter(0.1);
+        const bandwidth = positionScale.bandwidth();
+        const height = this.dimensions.height;
+
+        const plotGroup = this.svg.append("g")
+            .attr("class", "sequence-context")
+            .attr("transform", `translate(0, ${this.top})`)
+            .attr("pointer-events", "none");
+
+        const canonical = this.canonicalPositions();
+        canonical.forEach(pos => {
+            plotGroup.append("rect")
+                .attr("class", "canonical-site")
+                .attr("x", (positionScale(pos) || 0) - positionScale.step() * 0.1)
+                .attr("y", 0)
+                .attr("width", positionScale.step())
+                .attr("height", height)
+                .attr("fill", this.highlightColor)
+                .attr("fill-opacity", 0.6);
+        });
+
+        if (this.composition) {
+            this.plotLogo(plotGroup, positions, positionScale);
+            return;
+        }
+        if (!this.sequence) {
+            return;
+        }
+        const fontSize = Math.min(this.dimensions.fontSize, bandwidth * 1.4, height);
+        positions.forEach(pos => {
+            const genomic = this.baseAt(pos);
+            const base = this.reversed ? complementBase(genomic) as Nucleotide : genomic;
+            plotGroup.append("text")
+                .attr("x", (positionScale(pos) || 0) + bandwidth / 2)
+                .attr("y", height / 2)
+                .attr("text-anchor", "middle")
+                .attr("dominant-baseline", "central")
+                .style("font-size", `${fontSize}px`)
+                .style("font-weight", canonical.includes(pos) ? "bold" : "normal")
+                .attr("fill", nucleotideColors[base])
+                .text(base);
+        });
+    }
+
+    // Letters stacked by frequency and scaled by the information content of the position (2 bits at most)
+    private plotLogo(plotGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        positions: number[], positionScale: d3.ScaleBand<number>): void {
+        const { height, fontSize } = this.dimensions;
+        const bandwidth = positionScale.bandwidth();
+
+        positions.forEach(pos => {
+            const genomic = this.composition!.get(pos);
+            if (!genomic) {
+                return;
+            }
+            const counts = this.reversed ? complementCounts(genomic) : genomic;
+            const bases = NUCLEOTIDES.filter(nt => nt !== "N");
+            const total = d3.sum(bases, nt => counts[nt]);
+            if (total === 0) {
+                return;
+            }
+            const frequencies = bases.map(nt => ({ nt, frequency: counts[nt] / total }));
+            const entropy = -d3.sum(frequencies, ({ frequency }) => frequency > 0 ? frequency * Math.log2(frequency) : 0);
+            const information = 2 - entropy;
+
+            // smallest letter at the bottom, most frequent base on top
+            let top = height;
+            frequencies
+                .sort((a, b) => a.frequency - b.frequency)
+                .forEach(({ nt, frequency }) => {
+                    const letterHeight = frequency * information / 2 * height;
+                    if (letterHeight < 0.5) {
+                        return;
+                    }
+                    const x = (positionScale(pos) || 0) + bandwidth / 2;
+                    plotGroup.append("text")
+                        .attr("transform", `translate(${x}, ${top}) scale(${bandwidth / (fontSize * 0.65)}, ${letterHeight / (fontSize * CAP_HEIGHT)})`)
+                        .attr("text-anchor", "middle")
+                        .style("font-size", `${fontSize}px`)
+                        .style("font-weight", "bold")
+                        .attr("fill", nucleotideColors[nt])
+                        .text(nt);
+                    top -= letterHeight;
+                });
+        });
+    }
+}
@@ -0,0 +1,130 @@
+import * as d3 from 'd3';
+
+import { BedData } from 'sparrowgenomelib';
+
+import { SampleGroups } from '../../utils/sampleGroups';
+import { YScale } from '../../utils/yScales';
+
+interface SignalSummaryPlotDimensions {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+interface SignalSummaryPlotData {
+    dimensions: SignalSummaryPlotDimensions;
+    bedData: BedData;
+    start: number; // first position in the window (inclusive)
+    end: number; // last position in the window (inclusive)
+    reversed: boolean; // draw positions right to left
+    yScale: YScale;
+    display: 'bar' | 'line';
+    color: string;
+    sampleGroups: SampleGroups | null; // one series per group instead of a single series over all samples
+}
+
+// Draws the mean score at every position of a zoom window as bars or as a line
+export class SignalSummaryPlot {
+    private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private dimensions: SignalSummaryPlotDimensions;
+    private bedData: BedData;
+    private start: number;
+    private end: number;
+    private reversed: boolean;
+    private yScale: YScale;
+    private display: 'bar' | 'line';
+    private color: string;
+    private sampleGroups: SampleGroups | null;
+
+    constructor(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        data: SignalSummaryPlotData) {
+        this.svg = svg;
+        this.dimensions = data.dimensions;
+        this.bedData = data.bedData;
+        this.start = data.start;
+        this.end = data.end;
+        this.reversed = data.reversed;
+        this.yScale = data.yScale;
+        this.display = data.display;
+        this.color = data.color;
+        this.sampleGroups = data.sampleGroups;
+    }
+
+    public plot(): void {
+        const positions = d3.range(this.start, this.end + 1);
+        const positionScale = d3.scaleBand<number>()
+            .domain(this.reversed ? positions.slice().reverse() : positions)
+            .range([0, this.dimensions.width])
+            .paddingInner(0.2)
+            .paddingOuter(0.1);
+
+        // series name -> position -> scores; samples without a group are not drawn when groups are active
+        const series: Map<string, Map<number, number[]>> = new Map();
+        this.bedData.getData().forEach(line => {
+            const name = this.sampleGroups ? this.sampleGroups.assignments.get(line.name) : "all";
+            if (name === undefined) {
+                return;
+            }
+            if (!series.has(name)) {
+                series.set(name, new Map());
+            }
+            const scores = series.get(name)!;
+            if (!scores.has(line.start)) {
+                scores.set(line.start, []);
+            }
+            scores.get(line.start)!.push(line.score);
+        });
+
+        const names = this.sampleGroups ? this.sampleGroups.groups.filter(group => series.has(group)) : ["all"];
+        const seriesScale = d3.scaleBand<string>()
+            .domain(names)
+            .range([0, positionScale.bandwidth()])
+            .padding(0.1);
+
+        const plotGroup = this.svg.append("g").attr("class", "signal-summary-plot");
+
+        names.forEach(name => {
+            const scores = series.get(name);
+            if (!scores) {
+                return;
+            }
+            const color = this.sampleGroups ? this.sampleGroups.colors[name] : this.color;
+            const means = positions
+                .filter(pos => scores.has(pos))
+                .map(pos => ({ pos, mean: d3.mean(scores.get(pos)!) ?? 0 }));
+
+            if (this.display === "line") {
+                const line = d3.line<{ pos: number, mean: number }>()
+                    .x(d => (positionScale(d.pos) || 0) + positionScale.bandwidth() / 2)
+                    .y(d => this.yScale(d.mean));
+                plotGroup.append("path")
+                    .datum(means)
+                    .attr("d", line)
+                    .attr("fill", "none")
+                    .attr("stroke", color)
+                    .attr("stroke-width", 1.5);
+                plotGroup.selectAll(null)
+                    .data(means)
+                    .enter()
+                    .append("circle")
+                    .attr("cx", d => (positionScale(d.pos) || 0) + positionScale.bandwidth() / 2)
+                    .attr("cy", d => this.yScale(d.mean))
+                    .attr("r", 2)
+                    .attr("fill", color);
+                return;
+            }
+
+            plotGroup.selectAll(null)
+                .data(means)
+                .enter()
+                .append("rect")
+                .attr("x", d => (positionScale(d.pos) || 0) + (seriesScale(name) || 0))
+                .attr("y", d => this.yScale(d.mean))
+                .attr("width", seriesScale.bandwidth())
+                .attr("height", d => Math.max(0, this.yScale(0) - this.yScale(d.mean)))
+                .attr("fill", color);
+        });
+    }
+}
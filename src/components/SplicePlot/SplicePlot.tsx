@@ -2,9 +2,7 @@ import * as d3 from 'd3';
 
 import {
     Transcriptome,
-    BedFile,
     BedData,
-    BedLine,
     D3Grid,
     GridConfig,
     ORFPlot,
@@ -16,124 +14,112 @@ import {
     TriangleConnector
 } from 'sparrowgenomelib';
 
-function computeMeanScores(bedData: BedData): BedData {
-    // Step 1: Explode the data into individual base-pair intervals
-    const explodedData = bedData.explode().getData();
-
-    // Step 2: Create a map to group scores by position
-    const scoreMap: Map<number, { totalScore: number; count: number }> = new Map();
-
-    explodedData.forEach(line => {
-        const pos = line.start;
-        if (!scoreMap.has(pos)) {
-            scoreMap.set(pos, { totalScore: 0, count: 0 });
+import { SampleGroups, SampleGroupDisplay } from '../../utils/sampleGroups';
+import { ScoreSummary, summarizeScores } from '../../utils/siteStats';
+import { NucleotideCounts } from '../../utils/nucleotideCounts';
+import { SiteTestResult, significanceLabel } from '../../utils/siteTests';
+import { NearestFeature, Strand, findNearestExon, inferSiteStrand, strandsAgree } from '../../utils/transcriptomeUtils';
+import { SignalTrack, anchorPositions, zoomWindow } from '../../utils/signalTracks';
+import { SignalSummary, emptySignalSummary, windowMaxScore } from '../../utils/signalSummary';
+import { Junction } from '../../utils/junctions';
+import { SiteNames, ordinalSiteNames, siteName } from '../../utils/siteLabels';
+import { PlotTheme } from '../../utils/themes';
+import { YScale, createDeltaScale, createYScale, yDomain, yScaleLabels } from '../../utils/yScales';
+import { SiteChange, largestChanges, maxAbsDelta, siteChange, windowScores } from '../../utils/comparison';
+import { SampleTimepoints, timeCourse } from '../../utils/timepoints';
+import { GroupedSitePlot, plotSampleGroupLegend } from './GroupedSitePlot';
+import { SignalSummaryPlot } from './SignalSummaryPlot';
+import { SequenceContextPlot } from './SequenceContextPlot';
+import { JunctionPlot, WeightedJunction } from './JunctionPlot';
+import { TimeCoursePlot } from './TimeCoursePlot';
+import { ComparisonPlot } from './ComparisonPlot';
+import { TrackConfig, GridLayout, SignalTrackRows, buildGridLayout, isBuiltinTrack, rowsAbove } from './trackLayout';
+
+// Mean score per position as single base BED lines, keeping only positions inside [start, end]
+function meanBedData(summary: SignalSummary, start: number, end: number): BedData {
+    const meanData = new BedData();
+    summary.means.forEach(({ score, strand }, pos) => {
+        if (pos >= start && pos <= end) {
+            meanData.addLine({
+                seqid: summary.seqid,
+                start: pos,
+                end: pos + 1,
+                name: `mean@${pos}`,
+                score: score,
+                strand: strand,
+            });
         }
-        const entry = scoreMap.get(pos)!;
-        entry.totalScore += line.score;
-        entry.count += 1;
     });
-
-    // Step 3: Create a new BedData object with mean scores
-    const meanData = new BedData();
-
-    for (const [pos, { totalScore, count }] of scoreMap.entries()) {
-        meanData.addLine({
-            seqid: "mean", // Use a placeholder name for seqid
-            start: pos,
-            end: pos + 1, // Single base-pair interval
-            name: `mean@${pos}`, // Placeholder name
-            score: totalScore / count,
-            strand: ".", // Placeholder strand
-        });
-    }
-
     return meanData;
 }
 
-function computeMaxNonOutlierScore(bedData: BedData): number {
-    const exploded = bedData.explode(); // Each base as its own BedLine
-    const groupedScores: { [key: number]: number[] } = {};
-
-    // Group scores by position
-    exploded.getData().forEach((line) => {
-        const pos = line.start;
-        if (!groupedScores[pos]) {
-            groupedScores[pos] = [];
+// Sample values between start and end (inclusive) on the strand of the site, one single base line per value.
+// With fillEmpty, positions without values get a placeholder line with score 0 so that every position is drawn.
+function windowBedData(summary: SignalSummary, start: number, end: number, strand: Strand, fillEmpty: boolean): BedData {
+    const windowData = new BedData();
+    for (let pos = start; pos <= end; pos++) {
+        const values = (summary.scores.get(pos) ?? []).filter(value => strandsAgree(value.strand, strand));
+        values.forEach(value => windowData.addLine({
+            seqid: summary.seqid,
+            start: pos,
+            end: pos + 1,
+            name: value.name,
+            score: value.score,
+            strand: value.strand,
+        }));
+        if (values.length === 0 && fillEmpty) {
+            windowData.addLine({ seqid: "placeholder", start: pos, end: pos + 1, name: "empty", score: 0, strand: strand });
         }
-        groupedScores[pos].push(line.score);
-    });
-
-    // Compute max non-outlier score for each position
-    const maxNonOutlierScores: number[] = Object.values(groupedScores).map((scores) => {
-        scores.sort((a, b) => a - b);
-        const q1 = d3.quantile(scores, 0.25) || 0;
-        const q3 = d3.quantile(scores, 0.75) || 0;
-        const iqr = q3 - q1;
-        const upperBound = q3 + 1.5 * iqr;
+    }
+    return windowData;
+}
 
-        // Filter out outliers and take the max
-        return Math.max(...scores.filter((score) => score <= upperBound));
-    });
+// Everything shown in the hover tooltip for a position under the cursor
+export interface PlotHoverInfo {
+    trackId: string;
+    trackName: string;
+    position: number;
+    element: 'site' | 'mean' | 'zoom'; // dashed site line, full genome mean bar or zoom cell column
+    nearestExon: NearestFeature | null;
+    summary: ScoreSummary | null;
+    mean: number | null;
+}
 
-    // Return the overall maximum non-outlier score
-    return Math.max(...maxNonOutlierScores);
+export interface SiteSelection {
+    trackId: string;
+    position: number;
 }
 
-function fill_empty_bed_positions(
-    bedData: BedData,
-    startPos: number,
-    endPos: number,
-    placeholderOptions: Partial<BedLine> = {}
-): BedData {
-    // Create a new BedData instance for the complete range
-    const completeBedData = new BedData();
-    
-    // Set default placeholder values
-    const defaultPlaceholder: BedLine = {
-        seqid: "placeholder",
-        start: 0,  // Will be overridden for each position
-        end: 0,    // Will be overridden for each position
-        name: "empty",
-        score: 0,
-        strand: "."
-    };
-    
-    // Merge default with provided options
-    const placeholderTemplate = { ...defaultPlaceholder, ...placeholderOptions };
-    
-    // Loop through the entire desired range and ensure each position exists
-    for (let pos = startPos; pos <= endPos; pos++) {
-        // Get entries at this position
-        const entriesAtPos = bedData.getPos(pos);
-        
-        if (entriesAtPos.length > 0) {
-            // If we have entries, add them to our complete range
-            entriesAtPos.forEach(entry => {
-                completeBedData.addLine(entry);
-            });
-        } else {
-            // If no entries exist for this position, add a placeholder entry
-            const placeholder: BedLine = {
-                ...placeholderTemplate,
-                start: pos,
-                end: pos + 1
-            };
-            
-            completeBedData.addLine(placeholder);
-        }
-    }
-    
-    return completeBedData;
+// A double-clicked site label, opened for editing
+export interface SiteLabelEdit extends SiteSelection {
+    name: string; // name currently shown
 }
 
 interface SplicePlotData {
     transcriptome: Transcriptome;
-    bedFiles: { donors: BedFile, acceptors: BedFile };
+    signalTracks: SignalTrack[];
+    signalSummaries: Map<string, SignalSummary>; // precomputed per-position values, keyed by track id
+    seqid: string; // plotted sequence, selects the base counts of count table tracks
+    referenceSequence: string | null; // reference of the plotted sequence from the FASTA upload
+    junctions: Junction[]; // arcs of the junction track, annotated introns or read from a junction file
+    siteNames: SiteNames; // user given names, sites without one are numbered D1, A1...
+    theme: PlotTheme;
     zoomWidth: number;
     zoomWindowWidth: number;
     width: number;
     height: number;
     fontSize: number;
+    tracks: TrackConfig[];
+    sampleGroups: SampleGroups | null;
+    groupDisplay: SampleGroupDisplay;
+    timepoints: SampleTimepoints | null; // zoom cells show the site over time instead of the window around it
+    onHover?: (info: PlotHoverInfo | null, event: MouseEvent) => void;
+    onSiteClick?: (site: SiteSelection) => void;
+    onSiteLabelEdit?: (edit: SiteLabelEdit, event: MouseEvent) => void;
+    siteTests: SiteTestResult[] | null;
+    transcriptOrientation: boolean; // draw minus-strand zoom cells right to left
+    viewRange: [number, number] | null; // genomic window shown on the full genome tracks, null for the whole genome
+    onViewRangeChange?: (range: [number, number] | null) => void;
 }
 
 export class SplicePlot {
@@ -143,30 +129,33 @@ export class SplicePlot {
     private fontSize: number;
     private zoomWindowWidth: number;
     private zoomWidth: number;
+    private sampleGroups: SampleGroups | null;
+    private groupDisplay: SampleGroupDisplay;
+    private timepoints: SampleTimepoints | null;
+    private siteTests: Map<string, SiteTestResult> = new Map(); // keyed by trackId:position
+    private transcriptOrientation: boolean;
+    private siteStrands: Map<number, Strand> = new Map();
     private transcriptome: Transcriptome = new Transcriptome();
-    private bedFiles: { donors: BedFile; acceptors: BedFile } = {
-        donors: {
-            data: new BedData(),
-            fileName: "",
-            status: 0,
-        },
-        acceptors: {
-            data: new BedData(),
-            fileName: "",
-            status: 0,
-        }
-    };
-
-    private gridConfig: GridConfig = {
-        columns: 3,
-        columnRatios: [0.9, 0.1], // plot, labels, legend
-        rowRatiosPerColumn: [
-            [0.1, 0.45, 0.025, 0.05, 0.025, 0.15, 0.025, 0.05, 0.025, 0.15], // pathogen, transcriptome, spacer, donor fullgenome barplot, spacer, donor expression, spacer, acceptor fullgenome barplot, spacer, acceptor expression
-            [0.1, 0.45, 0.025, 0.05, 0.025, 0.15, 0.025, 0.05, 0.025, 0.15], // pathogen, transcriptome, spacer, donor fullgenome barplot, spacer, donor expression, spacer, acceptor fullgenome barplot, spacer, acceptor expression
-        ],
-    };
+    private signalTracks: Map<string, SignalTrack> = new Map();
+    private signalSummaries: Map<string, SignalSummary>;
+    private seqid: string;
+    private referenceSequence: string | null;
+    private junctions: Junction[];
+    private siteNames: SiteNames;
+    private theme: PlotTheme;
+    private ordinalNames: Map<string, Map<number, string>> = new Map(); // keyed by track id
+
+    private layout: GridLayout;
+    private gridConfig: GridConfig;
     private grid: D3Grid;
 
+    private onHover?: (info: PlotHoverInfo | null, event: MouseEvent) => void;
+    private onSiteClick?: (site: SiteSelection) => void;
+    private onSiteLabelEdit?: (edit: SiteLabelEdit, event: MouseEvent) => void;
+    private onViewRangeChange?: (range: [number, number] | null) => void;
+    private viewStart: number;
+    private viewEnd: number;
+
     constructor(svgElement: d3.Selection<SVGSVGElement, unknown, null, undefined>,
         data: SplicePlotData) {
 
@@ -178,122 +167,421 @@ export class SplicePlot {
         this.zoomWidth = data.zoomWidth;
 
         this.transcriptome = data.transcriptome;
-        this.bedFiles = data.bedFiles;
+        data.signalTracks.forEach(track => this.signalTracks.set(track.id, track));
+        this.signalSummaries = data.signalSummaries;
+        this.seqid = data.seqid;
+        this.referenceSequence = data.referenceSequence;
+        this.junctions = data.junctions;
+        this.siteNames = data.siteNames;
+        this.theme = data.theme;
+
+        this.sampleGroups = data.sampleGroups;
+        this.groupDisplay = data.groupDisplay;
+        this.timepoints = data.timepoints;
+        this.transcriptOrientation = data.transcriptOrientation;
+        data.siteTests?.forEach(result => this.siteTests.set(`${result.trackId}:${result.position}`, result));
+
+        // rows follow the configured track order: ORF, transcriptome and for each signal track
+        // spacer, full genome barplot, connector spacer and zoom cells
+        // layout entries of removed signal tracks are skipped
+        this.layout = buildGridLayout(data.tracks.filter(track =>
+            isBuiltinTrack(track.id) || this.signalTracks.has(track.id)));
+        this.gridConfig = {
+            columns: 3,
+            columnRatios: [0.9, 0.1], // plot, labels, legend
+            rowRatiosPerColumn: [
+                [...this.layout.rowRatios],
+                [...this.layout.rowRatios],
+            ],
+        };
+        // reserve the third column for the sample group, subject or condition legend
+        if (this.sampleGroups || this.timepoints || data.signalTracks.some(track => this.comparedTrack(track))) {
+            this.gridConfig.columnRatios = [0.8, 0.1, 0.1];
+            this.gridConfig.rowRatiosPerColumn.push([...this.layout.rowRatios]);
+        }
+
+        this.onHover = data.onHover;
+        this.onSiteClick = data.onSiteClick;
+        this.onSiteLabelEdit = data.onSiteLabelEdit;
+        this.onViewRangeChange = data.onViewRangeChange;
+        // view windows from sessions or the URL may reach beyond the genome, empty ones show all of it
+        const genomeEnd = this.transcriptome.getEnd();
+        const [viewStart, viewEnd] = data.viewRange ?? [0, genomeEnd];
+        this.viewStart = Math.max(0, viewStart);
+        this.viewEnd = genomeEnd > 0 ? Math.min(viewEnd, genomeEnd) : viewEnd;
+        if (this.viewEnd <= this.viewStart) {
+            [this.viewStart, this.viewEnd] = [0, genomeEnd];
+        }
 
         this.svg = svgElement;
 
         this.grid = new D3Grid(this.svg, this.height, this.width, this.gridConfig);
     }
 
-    public plot(): void {
-        const pathogenPlotSvg = this.grid.getCellSvg(0, 0);
-        if (pathogenPlotSvg) {
-            const dimensions = this.grid.getCellDimensions(0, 0);
-            const coordinates = this.grid.getCellCoordinates(0, 0);
+    // Collect the statistics shown in the tooltip for a position of the given signal track
+    private describePosition(track: SignalTrack, position: number, element: PlotHoverInfo['element']): PlotHoverInfo {
+        const scores = (this.summary(track).scores.get(position) ?? []).map(value => value.score);
+        return {
+            trackId: track.id,
+            trackName: track.name,
+            position,
+            element,
+            nearestExon: findNearestExon(this.transcriptome, position),
+            summary: summarizeScores(scores),
+            mean: this.summary(track).means.get(position)?.score ?? null,
+        };
+    }
 
-            const ORFPlotDimensions = {
-                width: dimensions?.width || 0,
-                height: dimensions?.height || 0,
-                x: coordinates?.x || 0,
-                y: coordinates?.y || 0,
-                fontSize: this.fontSize,
-            };
+    // Sequence shown under the zoom cells of a track: a logo for count tables, else the reference strip if loaded
+    private sequenceContext(track: SignalTrack): { composition: Map<number, NucleotideCounts> | null, height: number } | null {
+        // time course cells have no position axis to align a sequence to
+        if (this.timepoints) {
+            return null;
+        }
+        const composition = track.composition?.get(this.seqid) ?? null;
+        if (composition) {
+            return { composition, height: 0.3 };
+        }
+        if (this.referenceSequence) {
+            return { composition: null, height: 0.15 };
+        }
+        return null;
+    }
 
-            const orfPlot = new ORFPlot(pathogenPlotSvg, {
-                dimensions: ORFPlotDimensions,
-                transcriptome: this.transcriptome
-            });
-            this.grid.setCellData(0, 0, orfPlot);
-            orfPlot.plot();
+    // Track holding condition B of a compared track, null when the track is not compared
+    private comparedTrack(track: SignalTrack): SignalTrack | null {
+        if (track.compareWith === null || track.compareWith === track.id) {
+            return null;
         }
+        return this.signalTracks.get(track.compareWith) ?? null;
+    }
 
-        const transcriptomePlotSvg = this.grid.getCellSvg(0, 1);
-        let gene_coords: any[] = [];
-        if (transcriptomePlotSvg) {
-            const dimensions = this.grid.getCellDimensions(0, 1);
-            const coordinates = this.grid.getCellCoordinates(0, 1);
+    // Difference of the site means in the corner of a compared zoom cell. The largest changes of the track are
+    // set in bold over a highlighted background.
+    private plotSiteChange(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        change: SiteChange, highlighted: boolean, width: number, height: number): void {
+        if (highlighted) {
+            svg.insert("rect", ":first-child")
+                .attr("class", "site-change-highlight")
+                .attr("width", width)
+                .attr("height", height)
+                .attr("fill", this.theme.highlight)
+                .attr("fill-opacity", 0.35);
+        }
+        svg.append("text")
+            .attr("class", "site-change")
+            .attr("x", width - 3)
+            .attr("y", height - 3)
+            .attr("text-anchor", "end")
+            .attr("pointer-events", "none")
+            .style("font-size", `${this.fontSize * 0.8}px`)
+            .style("font-weight", highlighted ? "bold" : "normal")
+            .attr("fill", this.theme.foreground)
+            .attr("stroke", this.theme.background)
+            .attr("stroke-width", 3)
+            .attr("paint-order", "stroke")
+            .text(`Δ${d3.format("+.2f")(change.delta)}`);
+    }
 
-            const transcriptomePlotDimensions = {
-                width: dimensions?.width || 0,
-                height: dimensions?.height || 0,
-                x: coordinates?.x || 0,
-                y: coordinates?.y || 0,
-                fontSize: this.fontSize,
-            };
+    // tracks whose summary is still being computed are drawn empty
+    private summary(track: SignalTrack): SignalSummary {
+        return this.signalSummaries.get(track.id) ?? emptySignalSummary;
+    }
 
-            const transcriptomePlot = new TranscriptomePlot(transcriptomePlotSvg, {
-                dimensions: transcriptomePlotDimensions,
-                transcriptome: this.transcriptome
+    private addInteraction<E extends SVGElement>(target: d3.Selection<E, unknown, null, undefined>,
+        track: SignalTrack, position: number, element: PlotHoverInfo['element']): void {
+        target
+            .style("cursor", "pointer")
+            .on("mouseover mousemove", (event) => {
+                this.onHover?.(this.describePosition(track, position, element), event as MouseEvent);
+            })
+            .on("mouseout", (event) => {
+                this.onHover?.(null, event as MouseEvent);
+            })
+            .on("click", () => {
+                this.onSiteClick?.({ trackId: track.id, position });
             });
-            this.grid.setCellData(0, 1, transcriptomePlot);
-            gene_coords = transcriptomePlot.plot();
+    }
+
+    // One transparent rectangle per bar of the full genome mean barplot
+    private addMeanHitTargets(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        track: SignalTrack, meanData: BedData, xScale: d3.ScaleLinear<number, number>, height: number): void {
+        meanData.getData().forEach(line => {
+            const x = xScale(line.start);
+            const hitRect = svg.append("rect")
+                .attr("class", "mean-hit-target")
+                .attr("x", x - 2)
+                .attr("y", 0)
+                .attr("width", Math.max(4, xScale(line.end) - x))
+                .attr("height", height)
+                .attr("fill", "transparent")
+                .attr("pointer-events", "all");
+            this.addInteraction(hitRect, track, line.start, "mean");
+        });
+    }
+
+    // One transparent column per position of a zoom cell
+    private addZoomHitTargets(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        track: SignalTrack, start: number, end: number, dimensions: { width: number, height: number }, reversed: boolean): void {
+        const columnWidth = dimensions.width / (end - start + 1);
+        for (let pos = start; pos <= end; pos++) {
+            const column = reversed ? end - pos : pos - start;
+            const hitRect = svg.append("rect")
+                .attr("class", "zoom-hit-target")
+                .attr("x", column * columnWidth)
+                .attr("y", 0)
+                .attr("width", columnWidth)
+                .attr("height", dimensions.height)
+                .attr("fill", "transparent")
+                .attr("pointer-events", "all");
+            this.addInteraction(hitRect, track, pos, "zoom");
         }
+    }
 
-        const geneLabelPlotSvg = this.grid.getCellSvg(1, 1);
-        if (geneLabelPlotSvg) {
-            const dimensions = this.grid.getCellDimensions(1, 1);
-            const coordinates = this.grid.getCellCoordinates(1, 1);
+    private siteStrand(position: number): Strand {
+        if (!this.siteStrands.has(position)) {
+            this.siteStrands.set(position, inferSiteStrand(this.transcriptome, position));
+        }
+        return this.siteStrands.get(position)!;
+    }
 
-            const geneLabelPlotDimensions = {
-                width: dimensions?.width || 0,
-                height: dimensions?.height || 0,
-                x: coordinates?.x || 0,
-                y: coordinates?.y || 0,
-                fontSize: this.fontSize,
-            };
+    // sorted anchor positions of a signal track inside the view window
+    private sitePositions(track: SignalTrack): number[] {
+        return anchorPositions(track, this.transcriptome)
+            .filter(site => this.inView(site))
+            .sort((a, b) => a - b);
+    }
+
+    // User given name of a site, or its ordinal among all sites of the track on this sequence
+    private siteName(track: SignalTrack, position: number): string {
+        const name = siteName(this.siteNames, this.seqid, position);
+        if (name !== undefined) {
+            return name;
+        }
+        if (!this.ordinalNames.has(track.id)) {
+            this.ordinalNames.set(track.id, ordinalSiteNames(track.anchor, anchorPositions(track, this.transcriptome)));
+        }
+        return this.ordinalNames.get(track.id)!.get(position) ?? String(position);
+    }
+
+    // Site name and coordinate, double-click to rename
+    private plotSiteLabel(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        track: SignalTrack, position: number, x: number, y: number, vertical: boolean): void {
+        const name = this.siteName(track, position);
+        // discovered sites are not annotated, set them apart until they are kept
+        const discovered = track.discoveredPositions.includes(position) && !track.customPositions.includes(position);
+        const label = svg.append("text")
+            .attr("class", "site-label")
+            .attr("transform", vertical ? `translate(${x}, ${y}) rotate(-90)` : `translate(${x}, ${y})`)
+            .attr("text-anchor", vertical ? "end" : "start")
+            .attr("dominant-baseline", vertical ? "auto" : "hanging")
+            .style("font-size", `${this.fontSize * 0.9}px`)
+            .style("font-style", discovered ? "italic" : "normal")
+            .attr("fill", this.theme.foreground)
+            // halo in the background color keeps the label readable over the tracks it crosses
+            .attr("stroke", this.theme.background)
+            .attr("stroke-width", 3)
+            .attr("paint-order", "stroke")
+            .text(`${name} ${position}`);
+        label.append("title").text(discovered ? "Discovered site, not annotated. Double-click to rename" : "Double-click to rename");
+        if (this.onSiteLabelEdit) {
+            label.style("cursor", "text")
+                .on("dblclick", (event) => {
+                    this.onSiteLabelEdit?.({ trackId: track.id, position, name }, event as MouseEvent);
+                });
+        }
+    }
+
+    private inView(position: number): boolean {
+        return position >= this.viewStart && position <= this.viewEnd;
+    }
+
+    // maps genomic coordinates of the current view window onto a full genome track
+    private viewScale(width: number): d3.ScaleLinear<number, number> {
+        return d3.scaleLinear()
+            .domain([this.viewStart, this.viewEnd])
+            .range([0, width]);
+    }
+
+    // ORF and transcriptome plots always span the whole genome. They are drawn as wide as the whole genome is at the
+    // zoom of the view window, so that labels and strokes keep their size, and applyViewWindow shows the window only.
+    private viewWindowWidth(width: number): number {
+        const genomeEnd = this.transcriptome.getEnd();
+        if (genomeEnd === 0 || this.viewEnd <= this.viewStart) {
+            return width;
+        }
+        return width * genomeEnd / (this.viewEnd - this.viewStart);
+    }
+
+    // scroll the cell to the view window without scaling: the viewBox has the size of the cell
+    private applyViewWindow(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>, width: number, height: number): void {
+        const genomeEnd = this.transcriptome.getEnd();
+        if (genomeEnd === 0 || (this.viewStart === 0 && this.viewEnd === genomeEnd)) {
+            return;
+        }
+        const x0 = this.viewStart / genomeEnd * this.viewWindowWidth(width);
+        svg.attr("viewBox", `${x0} 0 ${width} ${height}`);
+    }
+
+    // Drag across the transcriptome track to zoom into a window, shift+drag to pan the current window
+    private plotNavigation(): void {
+        const navigationRow = this.layout.transcriptome ?? this.layout.orf;
+        if (navigationRow === null || !this.onViewRangeChange) {
+            return;
+        }
+        const navigationSvg = this.grid.createOverlaySvg(0, [navigationRow]);
+        if (!navigationSvg) {
+            return;
+        }
+        const dimensions = this.grid.getCellDimensions(0, navigationRow);
+        const width = dimensions?.width || 0;
+        const height = dimensions?.height || 0;
+        const xScale = this.viewScale(width);
+        const genomeEnd = this.transcriptome.getEnd();
+
+        const brush = d3.brushX()
+            .extent([[0, 0], [width, height]])
+            .filter((event) => !event.shiftKey && !event.button)
+            .on("end", (event: d3.D3BrushEvent<unknown>) => {
+                if (!event.selection) {
+                    return;
+                }
+                const [x0, x1] = event.selection as [number, number];
+                const start = Math.max(0, Math.floor(xScale.invert(x0)));
+                const end = Math.min(genomeEnd, Math.ceil(xScale.invert(x1)));
+                if (end - start < 2) {
+                    return; // a click rather than a drag
+                }
+                this.onViewRangeChange?.([start, end]);
+            });
 
-            const geneLabelPlot = new TranscriptomePlotLabels(geneLabelPlotSvg, {
-                dimensions: geneLabelPlotDimensions,
-                genes: gene_coords
+        let panStartX = 0;
+        const pan = d3.drag<SVGGElement, unknown>()
+            .filter((event) => event.shiftKey && !event.button)
+            .on("start", (event) => {
+                panStartX = event.x;
+            })
+            .on("end", (event) => {
+                // the window stays inside the genome and is never wider than it
+                const span = Math.min(this.viewEnd - this.viewStart, genomeEnd);
+                const shift = Math.round((panStartX - event.x) / width * span);
+                if (shift === 0) {
+                    return;
+                }
+                const start = Math.max(0, Math.min(this.viewStart + shift, genomeEnd - span));
+                this.onViewRangeChange?.([start, start + span]);
             });
-            this.grid.setCellData(1, 1, geneLabelPlot);
-            geneLabelPlot.plot();
+
+        navigationSvg.append("g")
+            .attr("class", "navigation-brush")
+            .call(brush)
+            .call(pan);
+    }
+
+    // Significance stars for the group comparison at a site, drawn in the top right corner of its zoom cell,
+    // next to the site label
+    private plotSignificanceMarker(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        trackId: string, position: number, width: number): void {
+        const result = this.siteTests.get(`${trackId}:${position}`);
+        if (!result) {
+            return;
         }
+        const label = significanceLabel(result.adjustedPValue);
+        if (label === "") {
+            return;
+        }
+        svg.append("text")
+            .attr("class", "significance-marker")
+            .attr("x", width - 3)
+            .attr("y", this.fontSize)
+            .attr("text-anchor", "end")
+            .attr("pointer-events", "none")
+            .style("font-size", `${this.fontSize * 1.2}px`)
+            .style("font-weight", "bold")
+            .attr("fill", this.theme.foreground)
+            .text(label);
+    }
 
-        // draw donors on overlay
-        const donor_dashedLine_overlaySvg = this.grid.createOverlaySvg(0, [0, 1, 2]);
-        if (donor_dashedLine_overlaySvg) {
-            const dimensions = this.grid.getCellDimensions(0, 1);
+    // Small axis along the right edge of a zoom cell scaled on its own
+    private plotCellAxis(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>, yScale: YScale, width: number): void {
+        const yAxis = d3.axisLeft(yScale)
+            .ticks(3)
+            .tickSize(2);
+        svg.append("g")
+            .attr("class", "y-axis cell-axis")
+            .attr("transform", `translate(${width - 1}, 0)`)
+            .attr("pointer-events", "none")
+            .style("font-size", `${this.fontSize * 0.7}px`)
+            .style("color", this.theme.foreground)
+            .call(yAxis);
+    }
+
+    // Mean scores along the full genome as a line instead of bars
+    private plotMeanLine(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        meanData: BedData, xScale: d3.ScaleLinear<number, number>, height: number, color: string): void {
+        const means = meanData.getData().slice().sort((a, b) => a.start - b.start);
+        // a track without lines on this sequence is drawn on [0, 1]
+        const yScale = d3.scaleLinear()
+            .domain([0, d3.max(means, (line: { score: number }) => line.score) || 1])
+            .range([height, 0]);
+        const line = d3.line<{ start: number, score: number }>()
+            .x(d => xScale(d.start))
+            .y(d => yScale(d.score));
+        svg.append("path")
+            .datum(means)
+            .attr("class", "mean-line")
+            .attr("d", line)
+            .attr("fill", "none")
+            .attr("stroke", color)
+            .attr("stroke-width", 1.5);
+    }
 
-            for (const donor of this.transcriptome.donors()) {
-                const donor_x = donor / this.transcriptome.getEnd() * (dimensions?.width || 0);
-                donor_dashedLine_overlaySvg.append("line")
-                    .attr("x1", donor_x)
+    // Dashed lines marking each anchor position over all tracks above its signal track
+    private plotSiteLines(track: SignalTrack, rows: SignalTrackRows): void {
+        const rowsSpanned = rowsAbove(rows.fullGenome);
+        const dashedLine_overlaySvg = rowsSpanned.length > 0 ? this.grid.createOverlaySvg(0, rowsSpanned) : null;
+        if (dashedLine_overlaySvg) {
+            const dimensions = this.grid.getCellDimensions(0, rows.fullGenome);
+            const xScale = this.viewScale(dimensions?.width || 0);
+
+            for (const site of this.sitePositions(track)) {
+                const site_x = xScale(site);
+                dashedLine_overlaySvg.append("line")
+                    .attr("x1", site_x)
                     .attr("y1", 0)
-                    .attr("x2", donor_x)
+                    .attr("x2", site_x)
                     .attr("y2", this.height)
-                    .attr("stroke", "#F78154")
+                    .attr("stroke", track.color)
                     .attr("stroke-width", 1)
-                    .attr("stroke-dasharray", "5,5");
-            }
-        }
-
-        // draw acceptors on overlay
-        const acceptor_dashedLine_overlaySvg = this.grid.createOverlaySvg(0, [0, 1, 2, 3, 4, 5, 6]);
-        if (acceptor_dashedLine_overlaySvg) {
-            const dimensions = this.grid.getCellDimensions(0, 1);
+                    .attr("stroke-dasharray", this.theme.siteLineDash);
 
-            for (const acceptor of this.transcriptome.acceptors()) {
-                const acceptor_x = acceptor / this.transcriptome.getEnd() * (dimensions?.width || 0);
-                acceptor_dashedLine_overlaySvg.append("line")
-                    .attr("x1", acceptor_x)
+                // wider invisible line on top to make the dashed line easy to hover
+                const hitLine = dashedLine_overlaySvg.append("line")
+                    .attr("class", "site-hit-target")
+                    .attr("x1", site_x)
                     .attr("y1", 0)
-                    .attr("x2", acceptor_x)
+                    .attr("x2", site_x)
                     .attr("y2", this.height)
-                    .attr("stroke", "#5FAD56")
-                    .attr("stroke-width", 1)
-                    .attr("stroke-dasharray", "5,5");
+                    .attr("stroke", "transparent")
+                    .attr("stroke-width", 8)
+                    .attr("pointer-events", "stroke");
+                this.addInteraction(hitLine, track, site, "site");
+                this.plotSiteLabel(dashedLine_overlaySvg, track, site, site_x - 2, 2, true);
             }
         }
+    }
+
+    // Mean score along the full genome and the array of zoom cells around each anchor position
+    private plotSignalTrack(track: SignalTrack, rows: SignalTrackRows): void {
+        const summary = this.summary(track);
 
-        // ==================== DONOR PLOTS ====================
-        // plot donor full genome barplot
-        const donor_fullGenomePlotSvg = this.grid.getCellSvg(0, 3);
-        if (donor_fullGenomePlotSvg) {
-            const dimensions = this.grid.getCellDimensions(0, 3);
-            const coordinates = this.grid.getCellCoordinates(0, 3);
+        // plot full genome means
+        const fullGenomePlotSvg = this.grid.getCellSvg(0, rows.fullGenome);
+        if (fullGenomePlotSvg) {
+            const dimensions = this.grid.getCellDimensions(0, rows.fullGenome);
+            const coordinates = this.grid.getCellCoordinates(0, rows.fullGenome);
 
-            const donor_fullGenomePlotDimensions = {
+            const fullGenomePlotDimensions = {
                 width: dimensions?.width || 0,
                 height: dimensions?.height || 0,
                 x: coordinates?.x || 0,
@@ -302,51 +590,56 @@ export class SplicePlot {
             };
 
             // Create the x-axis scale
-            const xScale = d3.scaleLinear()
-                .domain([0, this.transcriptome.getEnd()])
-                .range([0, donor_fullGenomePlotDimensions.width]);
-
-            // transform data into means
-            const donor_fullGenomeMeanData = computeMeanScores(this.bedFiles.donors.data);
-            const donor_fullGenomePlot = new BarPlot(donor_fullGenomePlotSvg, {
-                dimensions: donor_fullGenomePlotDimensions,
-                bedData: donor_fullGenomeMeanData,
-                xScale: xScale,
-                color: "#F78154"
-            });
-            this.grid.setCellData(0, 3, donor_fullGenomePlot);
-            donor_fullGenomePlot.plot();
-
-            // Add y-axis to the donor barplot in the second column
-            const donor_barplot_axis_svg = this.grid.getCellSvg(1, 3);
-            if (donor_barplot_axis_svg) {
-                const axisDimensions = this.grid.getCellDimensions(1, 3);
-                
-                // Create y-axis scale for donor barplot
-                const maxDonorScore = Math.max(...donor_fullGenomeMeanData.getData().map(d => d.score));
+            const xScale = this.viewScale(fullGenomePlotDimensions.width);
+
+            // means of the positions inside the view window
+            const fullGenomeMeanData = meanBedData(summary, this.viewStart, this.viewEnd);
+            if (track.plotType === "line") {
+                this.plotMeanLine(fullGenomePlotSvg, fullGenomeMeanData, xScale, fullGenomePlotDimensions.height, track.color);
+            }
+            else {
+                const fullGenomePlot = new BarPlot(fullGenomePlotSvg, {
+                    dimensions: fullGenomePlotDimensions,
+                    bedData: fullGenomeMeanData,
+                    xScale: xScale,
+                    color: track.color
+                });
+                this.grid.setCellData(0, rows.fullGenome, fullGenomePlot);
+                fullGenomePlot.plot();
+            }
+
+            this.addMeanHitTargets(fullGenomePlotSvg, track, fullGenomeMeanData, xScale, fullGenomePlotDimensions.height);
+
+            // Add y-axis to the barplot in the second column
+            const barplot_axis_svg = this.grid.getCellSvg(1, rows.fullGenome);
+            if (barplot_axis_svg) {
+                const axisDimensions = this.grid.getCellDimensions(1, rows.fullGenome);
+
+                // Create y-axis scale for barplot
+                const maxScore = d3.max(fullGenomeMeanData.getData(), (d: { score: number }) => d.score) || 1;
                 const yScale = d3.scaleLinear()
-                    .domain([0, maxDonorScore])
+                    .domain([0, maxScore])
                     .range([axisDimensions?.height || 0, 0]);
-                
+
                 // Add y-axis
                 const yAxis = d3.axisRight(yScale)
-                    .ticks(2)
+                    .ticks(3)
                     .tickSize(3);
-                
-                donor_barplot_axis_svg.append("g")
+
+                barplot_axis_svg.append("g")
                     .attr("class", "y-axis")
                     .style("font-size", `${this.fontSize}px`)
-                    .style("color", "#333")
+                    .style("color", this.theme.foreground)
                     .call(yAxis);
             }
         }
 
-        const donor_dataPlotArraySvg = this.grid.getCellSvg(0, 5);
-        if (donor_dataPlotArraySvg) {
-            const dimensions = this.grid.getCellDimensions(0, 5);
-            const coordinates = this.grid.getCellCoordinates(0, 5);
+        const dataPlotArraySvg = this.grid.getCellSvg(0, rows.zoom);
+        if (dataPlotArraySvg) {
+            const dimensions = this.grid.getCellDimensions(0, rows.zoom);
+            const coordinates = this.grid.getCellCoordinates(0, rows.zoom);
 
-            const donor_dataPlotArrayDimensions = {
+            const dataPlotArrayDimensions = {
                 width: dimensions?.width || 0,
                 height: dimensions?.height || 0,
                 x: coordinates?.x || 0,
@@ -354,337 +647,461 @@ export class SplicePlot {
                 fontSize: this.fontSize,
             };
 
-            let donor_positions: number[] = []; // gather list of donors positions
-            for (const donor of this.transcriptome.donors()) {
-                donor_positions.push(donor);
-            }
-            // sort donor positions
-            donor_positions.sort((a, b) => a - b);
-            const donor_dataPlotArray = new DataPlotArray({
-                svg: donor_dataPlotArraySvg,
-                dimensions: donor_dataPlotArrayDimensions,
-                coordinateLength: this.transcriptome.getEnd(),
-                elements: donor_positions,
+            const positions = this.sitePositions(track);
+            const dataPlotArray = new DataPlotArray({
+                svg: dataPlotArraySvg,
+                dimensions: dataPlotArrayDimensions,
+                coordinateLength: this.viewEnd - this.viewStart,
+                elements: positions.map(pos => pos - this.viewStart),
                 elementWidth: this.zoomWindowWidth,
                 maxValue: 1,
             });
-            this.grid.setCellData(0, 5, donor_dataPlotArray);
-            donor_dataPlotArray.plot();
+            this.grid.setCellData(0, rows.zoom, dataPlotArray);
+            dataPlotArray.plot();
+
+            // condition B of a compared track shares the axes and decides which sites changed the most
+            const compared = this.comparedTrack(track);
+            const comparedSummary = compared ? this.summary(compared) : null;
+            const sharedDomain = yDomain(Math.max(summary.maxNonOutlierScore, comparedSummary?.maxNonOutlierScore ?? 0),
+                track.yMin, track.yMax);
+            const siteChanges: Map<number, SiteChange> = new Map();
+            let sharedDelta = 0;
+            if (comparedSummary) {
+                positions.forEach(site => {
+                    const strand = this.siteStrand(site);
+                    const [start, end] = zoomWindow(track.anchor, site, strand, this.zoomWidth);
+                    siteChanges.set(site, siteChange(summary, comparedSummary, site, strand));
+                    sharedDelta = Math.max(sharedDelta, maxAbsDelta(summary, comparedSummary, start, end, strand));
+                });
+                sharedDelta = track.yMax ?? sharedDelta;
+            }
+            const highlighted = largestChanges(Array.from(siteChanges.values()));
+            const context = this.sequenceContext(track);
 
-            // create individual plots for each donor site
-            for (let i = 0; i < donor_positions.length; i++) {
-                const donor = donor_positions[i];
+            // create individual plots for each site
+            for (let i = 0; i < positions.length; i++) {
+                const site = positions[i];
                 // pull corresponding svg from the grid
-                const donor_zoomPlotSvg = donor_dataPlotArray.getElementSVG(i);
-                if (donor_zoomPlotSvg) {
-                    const donor_zoomCellDimensions = donor_dataPlotArray.getCellDimensions(i);
-                    const donor_zoomCellCoordinates = donor_dataPlotArray.getCellCoordinates(i);
-
-                    const donor_zoomPlotDimensions = {
-                        width: donor_zoomCellDimensions?.width || 0,
-                        height: donor_zoomCellDimensions?.height || 0,
-                        x: donor_zoomCellCoordinates?.x || 0,
-                        y: donor_zoomCellCoordinates?.y || 0,
+                const zoomPlotSvg = dataPlotArray.getElementSVG(i);
+                if (zoomPlotSvg) {
+                    const zoomCellDimensions = dataPlotArray.getCellDimensions(i);
+                    const zoomCellCoordinates = dataPlotArray.getCellCoordinates(i);
+
+                    const zoomPlotDimensions = {
+                        width: zoomCellDimensions?.width || 0,
+                        height: zoomCellDimensions?.height || 0,
+                        x: zoomCellCoordinates?.x || 0,
+                        y: zoomCellCoordinates?.y || 0,
                         fontSize: this.fontSize,
                     };
 
-                    // Extract subset of donor data around the donor position
-                    const donor_range = this.bedFiles.donors.data.getRange(donor - this.zoomWidth-2, donor + this.zoomWidth).explode();
-                    const full_donor_range = fill_empty_bed_positions(donor_range, donor - this.zoomWidth-2, donor + this.zoomWidth);
-                    console.log("full_donor_range", donor, full_donor_range);
-                    const donorsMaxYScale = computeMaxNonOutlierScore(this.bedFiles.donors.data);
-                    const yScale = d3.scaleLinear()
-                        .domain([0, donorsMaxYScale])
-                        .range([donor_zoomPlotDimensions.height, 0]);
+                    // the sequence strip or logo takes the bottom of the cell
+                    const contextHeight = context ? zoomPlotDimensions.height * context.height : 0;
+                    const signalDimensions = { ...zoomPlotDimensions, height: zoomPlotDimensions.height - contextHeight };
+
+                    // Extract subset of data around the site position
+                    const strand = this.siteStrand(site);
+                    const [start, end] = zoomWindow(track.anchor, site, strand, this.zoomWidth);
+                    const reversed = this.transcriptOrientation && strand === "-";
+                    const range = windowBedData(summary, start, end, strand, false);
+                    const domain = track.yDomain === "site"
+                        ? yDomain(Math.max(windowMaxScore(summary, start, end),
+                            comparedSummary ? windowMaxScore(comparedSummary, start, end) : 0), track.yMin, track.yMax)
+                        : sharedDomain;
+                    const middle = signalDimensions.height / 2;
+                    let yScale = createYScale(track.yScale, domain, [signalDimensions.height, 0]);
+                    if (comparedSummary && track.compareDisplay === "delta") {
+                        const maxAbs = track.yDomain === "site"
+                            ? track.yMax ?? maxAbsDelta(summary, comparedSummary, start, end, strand)
+                            : sharedDelta;
+                        yScale = createDeltaScale(maxAbs, [signalDimensions.height, 0]);
+                    }
+                    else if (comparedSummary) {
+                        // condition A in the upper half
+                        yScale = createYScale(track.yScale, domain, [middle, 0]);
+                    }
 
                     // Create x scale for the plot
                     const xScale = d3.scaleLinear()
-                        .domain([donor - this.zoomWidth-2, donor + this.zoomWidth])
-                        .range([0, donor_zoomPlotDimensions.width]);
-
-                    // Create and render the boxplot
-                    const boxPlot = new BoxPlot(donor_zoomPlotSvg, {
-                        dimensions: donor_zoomPlotDimensions,
-                        bedData: { data: full_donor_range },
-                        xScale: xScale,
-                        yScale: yScale,
-                        showOutliers: false,
-                        colors: {
-                            box: "#F78154",
-                            median: "black",
-                            whisker: "black",
-                            outlier: "black",
-                        }
-                    });
+                        .domain([start, end])
+                        .range(reversed ? [zoomPlotDimensions.width, 0] : [0, zoomPlotDimensions.width]);
+
+                    if (compared && comparedSummary) {
+                        const comparisonPlot = new ComparisonPlot(zoomPlotSvg, {
+                            dimensions: signalDimensions,
+                            scoresA: windowScores(summary, start, end, strand),
+                            scoresB: windowScores(comparedSummary, start, end, strand),
+                            start: start,
+                            end: end,
+                            reversed: reversed,
+                            display: track.compareDisplay,
+                            plotType: track.plotType,
+                            yScaleA: yScale,
+                            yScaleB: createYScale(track.yScale, domain, [middle, signalDimensions.height]),
+                            colorA: track.color,
+                            colorB: compared.color,
+                            strokeColor: this.theme.foreground,
+                        });
+                        comparisonPlot.plot();
+                    }
+                    else if (this.timepoints) {
+                        // usage of the site itself per subject over time
+                        const scores = (summary.scores.get(site) ?? []).filter(value => strandsAgree(value.strand, strand));
+                        const timeCoursePlot = new TimeCoursePlot(zoomPlotSvg, {
+                            dimensions: signalDimensions,
+                            course: timeCourse(scores, this.timepoints),
+                            times: this.timepoints.times,
+                            yScale: yScale,
+                            colors: this.timepoints.colors,
+                            trendColor: track.color,
+                            textColor: this.theme.foreground,
+                        });
+                        timeCoursePlot.plot();
+                    }
+                    else if (track.plotType !== "box") {
+                        // mean per position, one series per sample group when groups are active
+                        const summaryPlot = new SignalSummaryPlot(zoomPlotSvg, {
+                            dimensions: signalDimensions,
+                            bedData: range,
+                            start: start,
+                            end: end,
+                            reversed: reversed,
+                            yScale: yScale,
+                            display: track.plotType,
+                            color: track.color,
+                            sampleGroups: this.sampleGroups,
+                        });
+                        summaryPlot.plot();
+                    }
+                    else if (this.sampleGroups) {
+                        // one box or point cloud per sample group at each position
+                        const groupedPlot = new GroupedSitePlot(zoomPlotSvg, {
+                            dimensions: signalDimensions,
+                            bedData: range,
+                            start: start,
+                            end: end,
+                            reversed: reversed,
+                            yScale: yScale,
+                            sampleGroups: this.sampleGroups,
+                            display: this.groupDisplay,
+                            strokeColor: this.theme.foreground,
+                        });
+                        groupedPlot.plot();
+                    }
+                    else {
+                        // Create and render the boxplot
+                        const boxPlot = new BoxPlot(zoomPlotSvg, {
+                            dimensions: signalDimensions,
+                            bedData: { data: windowBedData(summary, start, end, strand, true) },
+                            xScale: xScale,
+                            yScale: yScale,
+                            showOutliers: false,
+                            colors: {
+                                box: track.color,
+                                median: this.theme.foreground,
+                                whisker: this.theme.foreground,
+                                outlier: this.theme.foreground,
+                            }
+                        });
 
-                    boxPlot.plot();
+                        boxPlot.plot();
+                    }
+
+                    if (context) {
+                        const contextPlot = new SequenceContextPlot(zoomPlotSvg, {
+                            dimensions: { ...zoomPlotDimensions, height: contextHeight },
+                            top: signalDimensions.height,
+                            start: start,
+                            end: end,
+                            reversed: reversed,
+                            site: site,
+                            siteType: track.anchor === "custom" ? null : track.anchor,
+                            strand: strand,
+                            sequence: this.referenceSequence,
+                            composition: context.composition,
+                            highlightColor: this.theme.highlight,
+                        });
+                        contextPlot.plot();
+                    }
 
-                    donor_zoomPlotSvg.append("rect")
+                    zoomPlotSvg.append("rect")
                         .attr("class", "grid-background")
                         .attr("x", 0)
                         .attr("y", 0)
-                        .attr("width", donor_zoomPlotDimensions.width)
-                        .attr("height", donor_zoomPlotDimensions.height)
-                        .attr("fill", "#F78154")
+                        .attr("width", zoomPlotDimensions.width)
+                        .attr("height", zoomPlotDimensions.height)
+                        .attr("fill", track.color)
                         .attr("fill-opacity", 0.025)
-                        .attr("stroke", "#F78154")
+                        .attr("stroke", track.color)
                         .attr("stroke-width", 2)
                         .attr("stroke-opacity", 0.75);
 
+                    const change = siteChanges.get(site);
+                    if (change) {
+                        this.plotSiteChange(zoomPlotSvg, change, highlighted.has(site), zoomPlotDimensions.width, signalDimensions.height);
+                    }
+                    if (track.yDomain === "site") {
+                        this.plotCellAxis(zoomPlotSvg, yScale, zoomPlotDimensions.width);
+                    }
+                    this.plotSignificanceMarker(zoomPlotSvg, track.id, site, zoomPlotDimensions.width);
+                    if (this.timepoints) {
+                        this.addZoomHitTargets(zoomPlotSvg, track, site, site, zoomPlotDimensions, false);
+                    }
+                    else {
+                        this.addZoomHitTargets(zoomPlotSvg, track, start, end, zoomPlotDimensions, reversed);
+                    }
+                    this.plotSiteLabel(zoomPlotSvg, track, site, 3, 3, false);
+
                     // build connector in the overlay between zoom and original points
-                    const donor_spacerSvg = this.grid.getCellSvg(0, 4);
-                    if (donor_spacerSvg) {
-                        const donor_spacerDimensions = this.grid.getCellDimensions(0, 4);
-                        const donor_spacerCoordinates = this.grid.getCellCoordinates(0, 4);
-                        const donor_spacerPlotDimensions = {
-                            width: donor_spacerDimensions?.width || 0,
-                            height: donor_spacerDimensions?.height || 0,
-                            x: donor_spacerCoordinates?.x || 0,
-                            y: donor_spacerCoordinates?.y || 0,
+                    const spacerSvg = this.grid.getCellSvg(0, rows.connector);
+                    if (spacerSvg) {
+                        const spacerDimensions = this.grid.getCellDimensions(0, rows.connector);
+                        const spacerCoordinates = this.grid.getCellCoordinates(0, rows.connector);
+                        const spacerPlotDimensions = {
+                            width: spacerDimensions?.width || 0,
+                            height: spacerDimensions?.height || 0,
+                            x: spacerCoordinates?.x || 0,
+                            y: spacerCoordinates?.y || 0,
                             fontSize: this.fontSize,
                         };
 
-                        const zoom_intervals: [[number, number], [number, number]] = donor_dataPlotArray.getElementMapping(i);
-                        const donor_spacerPlot = new TriangleConnector({
-                            svg: donor_spacerSvg,
-                            dimensions: donor_spacerPlotDimensions,
+                        const zoom_intervals: [[number, number], [number, number]] = dataPlotArray.getElementMapping(i);
+                        const spacerPlot = new TriangleConnector({
+                            svg: spacerSvg,
+                            dimensions: spacerPlotDimensions,
                             points: {
                                 top: (zoom_intervals[0][0] + zoom_intervals[0][1]) / 2,
                                 left: zoom_intervals[1][0],
                                 right: zoom_intervals[1][1],
                                 mid: (zoom_intervals[1][0] + zoom_intervals[1][1]) / 2
                             },
-                            color: "red"
+                            color: track.color
                         });
-                        donor_spacerPlot.plot();
+                        spacerPlot.plot();
                     }
                 }
             }
 
-            // Add y-axis for each donor boxplot
-            const donor_boxplot_axis_svg = this.grid.getCellSvg(1, 5);
-            if (donor_boxplot_axis_svg && donor_positions.length > 0) {
-                const axisDimensions = this.grid.getCellDimensions(1, 5);
-                const donorsMaxYScale = computeMaxNonOutlierScore(this.bedFiles.donors.data);
-                
-                // Create y-axis scale
-                const yScale = d3.scaleLinear()
-                    .domain([0, donorsMaxYScale])
-                    .range([axisDimensions?.height || 0, 0]);
-                
-                // Add y-axis
-                const yAxis = d3.axisRight(yScale)
-                    .ticks(5)
-                    .tickSize(3);
-                
-                donor_boxplot_axis_svg.append("g")
-                    .attr("class", "y-axis")
-                    .style("font-size", `${this.fontSize}px`)
-                    .style("color", "#333")
-                    .call(yAxis);
+            // Add y-axis for the boxplots
+            const boxplot_axis_svg = this.grid.getCellSvg(1, rows.zoom);
+            if (boxplot_axis_svg && positions.length > 0) {
+                const axisDimensions = this.grid.getCellDimensions(1, rows.zoom);
+
+                // Create y-axis scale, leaving out the sequence strip at the bottom
+                const axisHeight = (axisDimensions?.height || 0) * (1 - (context?.height ?? 0));
+                if (track.yDomain === "site") {
+                    // every zoom cell carries its own axis
+                    boxplot_axis_svg.append("text")
+                        .attr("class", "y-axis-note")
+                        .attr("transform", `translate(${this.fontSize}, ${axisHeight / 2}) rotate(-90)`)
+                        .attr("text-anchor", "middle")
+                        .style("font-size", `${this.fontSize}px`)
+                        .attr("fill", this.theme.foreground)
+                        .text(`${yScaleLabels[track.yScale]} · per site`);
+                }
+                else {
+                    // one axis per condition when mirrored, both growing away from the middle line
+                    const yScales = !comparedSummary
+                        ? [createYScale(track.yScale, sharedDomain, [axisHeight, 0])]
+                        : track.compareDisplay === "delta"
+                            ? [createDeltaScale(sharedDelta, [axisHeight, 0])]
+                            : [createYScale(track.yScale, sharedDomain, [axisHeight / 2, 0]),
+                                createYScale(track.yScale, sharedDomain, [axisHeight / 2, axisHeight])];
+
+                    yScales.forEach(yScale => {
+                        // Add y-axis
+                        const yAxis = d3.axisRight(yScale)
+                            .ticks(yScales.length > 1 ? 3 : 5)
+                            .tickSize(3);
+
+                        boxplot_axis_svg.append("g")
+                            .attr("class", "y-axis")
+                            .style("font-size", `${this.fontSize}px`)
+                            .style("color", this.theme.foreground)
+                            .call(yAxis);
+                    });
+                }
             }
-        }
-
-        // ================ ACCEPTOR ARRAY PLOTS ================
-        // plot acceptor full genome barplot
-        const acceptor_fullGenomePlotSvg = this.grid.getCellSvg(0, 7);
-        if (acceptor_fullGenomePlotSvg) {
-            const dimensions = this.grid.getCellDimensions(0, 7);
-            const coordinates = this.grid.getCellCoordinates(0, 7);
 
-            const acceptor_fullGenomePlotDimensions = {
-                width: dimensions?.width || 0,
-                height: dimensions?.height || 0,
-                x: coordinates?.x || 0,
-                y: coordinates?.y || 0,
-                fontSize: this.fontSize,
-            };
+            // Add the condition, subject or sample group legend next to the zoom plots
+            const legendSvg = this.grid.getCellSvg(2, rows.zoom);
+            if (legendSvg && compared) {
+                const conditions = {
+                    groups: [`A: ${track.name}`, `B: ${compared.name}`],
+                    colors: { [`A: ${track.name}`]: track.color, [`B: ${compared.name}`]: compared.color },
+                };
+                plotSampleGroupLegend(legendSvg, conditions, this.fontSize, this.theme.foreground);
+            }
+            else if (legendSvg && this.timepoints) {
+                const subjects = { groups: this.timepoints.subjects, colors: this.timepoints.colors };
+                plotSampleGroupLegend(legendSvg, subjects, this.fontSize, this.theme.foreground);
+            }
+            else if (legendSvg && this.sampleGroups) {
+                plotSampleGroupLegend(legendSvg, this.sampleGroups, this.fontSize, this.theme.foreground);
+            }
+        }
+    }
 
-            // Create the x-axis scale
-            const xScale = d3.scaleLinear()
-                .domain([0, this.transcriptome.getEnd()])
-                .range([0, acceptor_fullGenomePlotDimensions.width]);
-
-            // transform data into means
-            const acceptor_fullGenomeMeanData = computeMeanScores(this.bedFiles.acceptors.data);
-            const acceptor_fullGenomePlot = new BarPlot(acceptor_fullGenomePlotSvg, {
-                dimensions: acceptor_fullGenomePlotDimensions,
-                bedData: acceptor_fullGenomeMeanData,
-                xScale: xScale,
-                color: "#5FAD56"
-            });
-            this.grid.setCellData(0, 3, acceptor_fullGenomePlot);
-            acceptor_fullGenomePlot.plot();
-
-            // Add y-axis to the acceptor barplot in the second column
-            const acceptor_barplot_axis_svg = this.grid.getCellSvg(1, 7);
-            if (acceptor_barplot_axis_svg) {
-                const axisDimensions = this.grid.getCellDimensions(1, 7);
-                
-                // Create y-axis scale for acceptor barplot
-                const maxAcceptorScore = Math.max(...acceptor_fullGenomeMeanData.getData().map(d => d.score));
-                const yScale = d3.scaleLinear()
-                    .domain([0, maxAcceptorScore])
-                    .range([axisDimensions?.height || 0, 0]);
-                
-                // Add y-axis
-                const yAxis = d3.axisRight(yScale)
-                    .ticks(3)
-                    .tickSize(3);
-                
-                acceptor_barplot_axis_svg.append("g")
-                    .attr("class", "y-axis")
-                    .style("font-size", `${this.fontSize}px`)
-                    .style("color", "#333")
-                    .call(yAxis);
+    // Junctions from a file are weighted by their read support. Annotated introns have no reads, so they are
+    // weighted by the sample mean of the first donor track at their donor site, i.e. how much the site is used.
+    private weightJunctions(): WeightedJunction[] {
+        const donorTrack = Array.from(this.signalTracks.values()).find(track => track.anchor === "donors");
+        const means = donorTrack ? this.summary(donorTrack).means : null;
+        return this.junctions.map(junction => {
+            if (junction.reads !== null) {
+                return { junction, weight: junction.reads, label: String(junction.reads) };
             }
+            const donor = junction.strand === "-" ? junction.acceptor : junction.donor;
+            const mean = means?.get(donor)?.score;
+            return mean === undefined
+                ? { junction, weight: 1, label: "" }
+                : { junction, weight: mean, label: mean.toFixed(2) };
+        });
+    }
+
+    private plotJunctions(row: number): void {
+        const junctionSvg = this.grid.getCellSvg(0, row);
+        if (!junctionSvg) {
+            return;
         }
+        const dimensions = this.grid.getCellDimensions(0, row);
+        const coordinates = this.grid.getCellCoordinates(0, row);
+        const junctionPlotDimensions = {
+            width: dimensions?.width || 0,
+            height: dimensions?.height || 0,
+            x: coordinates?.x || 0,
+            y: coordinates?.y || 0,
+            fontSize: this.fontSize,
+        };
+        const junctionPlot = new JunctionPlot(junctionSvg, {
+            dimensions: junctionPlotDimensions,
+            junctions: this.weightJunctions(),
+            xScale: this.viewScale(junctionPlotDimensions.width),
+            color: this.theme.palette.junction,
+            guideColor: this.theme.muted,
+            textColor: this.theme.foreground,
+        });
+        this.grid.setCellData(0, row, junctionPlot);
+        junctionPlot.plot();
+    }
 
-        const acceptor_dataPlotArraySvg = this.grid.getCellSvg(0, 9);
-        if (acceptor_dataPlotArraySvg) {
-            const dimensions = this.grid.getCellDimensions(0, 9);
-            const coordinates = this.grid.getCellCoordinates(0, 9);
+    // Figure background, part of the SVG so that exports keep it
+    private plotBackground(): void {
+        this.svg.insert("rect", ":first-child")
+            .attr("class", "figure-background")
+            .attr("x", 0)
+            .attr("y", 0)
+            .attr("width", this.width)
+            .attr("height", this.height)
+            .attr("fill", this.theme.background);
+    }
 
-            const acceptor_dataPlotArrayDimensions = {
-                width: dimensions?.width || 0,
-                height: dimensions?.height || 0,
-                x: coordinates?.x || 0,
-                y: coordinates?.y || 0,
-                fontSize: this.fontSize,
-            };
+    // The ORF and transcript plots draw their text in black, which disappears on a dark background
+    private applyThemeToText(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>): void {
+        if (this.theme.dark) {
+            svg.selectAll("text").attr("fill", this.theme.foreground).style("fill", this.theme.foreground);
+        }
+    }
 
-            let acceptor_positions: number[] = []; // gather list of acceptors positions
-            for (const acceptor of this.transcriptome.acceptors()) {
-                acceptor_positions.push(acceptor);
+    public plot(): void {
+        this.plotBackground();
+
+        if (this.layout.orf !== null) {
+            const orfRow = this.layout.orf;
+            const pathogenPlotSvg = this.grid.getCellSvg(0, orfRow);
+            if (pathogenPlotSvg) {
+                const dimensions = this.grid.getCellDimensions(0, orfRow);
+                const coordinates = this.grid.getCellCoordinates(0, orfRow);
+
+                const ORFPlotDimensions = {
+                    width: this.viewWindowWidth(dimensions?.width || 0),
+                    height: dimensions?.height || 0,
+                    x: coordinates?.x || 0,
+                    y: coordinates?.y || 0,
+                    fontSize: this.fontSize,
+                };
+
+                const orfPlot = new ORFPlot(pathogenPlotSvg, {
+                    dimensions: ORFPlotDimensions,
+                    transcriptome: this.transcriptome
+                });
+                this.grid.setCellData(0, orfRow, orfPlot);
+                orfPlot.plot();
+                this.applyThemeToText(pathogenPlotSvg);
+                this.applyViewWindow(pathogenPlotSvg, dimensions?.width || 0, ORFPlotDimensions.height);
             }
-            // sort acceptor positions
-            acceptor_positions.sort((a, b) => a - b);
-            const acceptor_dataPlotArray = new DataPlotArray({
-                svg: acceptor_dataPlotArraySvg,
-                dimensions: acceptor_dataPlotArrayDimensions,
-                coordinateLength: this.transcriptome.getEnd(),
-                elements: acceptor_positions,
-                elementWidth: this.zoomWindowWidth,
-                maxValue: 1,
-            });
-            this.grid.setCellData(0, 9, acceptor_dataPlotArray);
-            acceptor_dataPlotArray.plot();
-
-            // create individual plots for each acceptor site
-            for (let i = 0; i < acceptor_positions.length; i++) {
-                const acceptor = acceptor_positions[i];
-                // pull corresponding svg from the grid
-                const acceptor_zoomPlotSvg = acceptor_dataPlotArray.getElementSVG(i);
-                if (acceptor_zoomPlotSvg) {
-                    const acceptor_zoomCellDimensions = acceptor_dataPlotArray.getCellDimensions(i);
-                    const acceptor_zoomCellCoordinates = acceptor_dataPlotArray.getCellCoordinates(i);
-
-                    const acceptor_zoomPlotDimensions = {
-                        width: acceptor_zoomCellDimensions?.width || 0,
-                        height: acceptor_zoomCellDimensions?.height || 0,
-                        x: acceptor_zoomCellCoordinates?.x || 0,
-                        y: acceptor_zoomCellCoordinates?.y || 0,
-                        fontSize: this.fontSize,
-                    };
+        }
 
-                    // Extract subset of SJ data around the acceptor position
-                    const acceptor_range = this.bedFiles.acceptors.data.getRange(acceptor - this.zoomWidth-2, acceptor + this.zoomWidth).explode();
-                    const full_acceptor_range = fill_empty_bed_positions(acceptor_range, acceptor - this.zoomWidth-2, acceptor + this.zoomWidth);
-                    console.log("full_acceptor_range", acceptor, full_acceptor_range);
-                    const acceptorsMaxYScale = computeMaxNonOutlierScore(this.bedFiles.acceptors.data);
-                    const yScale = d3.scaleLinear()
-                        .domain([0, acceptorsMaxYScale])
-                        .range([acceptor_zoomPlotDimensions.height, 0]);
+        if (this.layout.transcriptome !== null) {
+            const transcriptomeRow = this.layout.transcriptome;
+            const transcriptomePlotSvg = this.grid.getCellSvg(0, transcriptomeRow);
+            let gene_coords: ReturnType<TranscriptomePlot["plot"]> = [];
+            if (transcriptomePlotSvg) {
+                const dimensions = this.grid.getCellDimensions(0, transcriptomeRow);
+                const coordinates = this.grid.getCellCoordinates(0, transcriptomeRow);
+
+                const transcriptomePlotDimensions = {
+                    width: this.viewWindowWidth(dimensions?.width || 0),
+                    height: dimensions?.height || 0,
+                    x: coordinates?.x || 0,
+                    y: coordinates?.y || 0,
+                    fontSize: this.fontSize,
+                };
+
+                const transcriptomePlot = new TranscriptomePlot(transcriptomePlotSvg, {
+                    dimensions: transcriptomePlotDimensions,
+                    transcriptome: this.transcriptome
+                });
+                this.grid.setCellData(0, transcriptomeRow, transcriptomePlot);
+                gene_coords = transcriptomePlot.plot();
+                this.applyThemeToText(transcriptomePlotSvg);
+                this.applyViewWindow(transcriptomePlotSvg, dimensions?.width || 0, transcriptomePlotDimensions.height);
+            }
 
-                    // Create x scale for the plot
-                    const xScale = d3.scaleLinear()
-                        .domain([acceptor - this.zoomWidth-4, acceptor + this.zoomWidth])
-                        .range([0, acceptor_zoomPlotDimensions.width]);
-
-                    // Create and render the boxplot
-                    const boxPlot = new BoxPlot(acceptor_zoomPlotSvg, {
-                        dimensions: acceptor_zoomPlotDimensions,
-                        bedData: { data: full_acceptor_range },
-                        xScale: xScale,
-                        yScale: yScale,
-                        showOutliers: false,
-                        colors: {
-                            box: "#5FAD56",
-                            median: "black",
-                            whisker: "black",
-                            outlier: "black",
-                        }
-                    });
+            const geneLabelPlotSvg = this.grid.getCellSvg(1, transcriptomeRow);
+            if (geneLabelPlotSvg) {
+                const dimensions = this.grid.getCellDimensions(1, transcriptomeRow);
+                const coordinates = this.grid.getCellCoordinates(1, transcriptomeRow);
+
+                const geneLabelPlotDimensions = {
+                    width: dimensions?.width || 0,
+                    height: dimensions?.height || 0,
+                    x: coordinates?.x || 0,
+                    y: coordinates?.y || 0,
+                    fontSize: this.fontSize,
+                };
+
+                const geneLabelPlot = new TranscriptomePlotLabels(geneLabelPlotSvg, {
+                    dimensions: geneLabelPlotDimensions,
+                    genes: gene_coords
+                });
+                this.grid.setCellData(1, transcriptomeRow, geneLabelPlot);
+                geneLabelPlot.plot();
+                this.applyThemeToText(geneLabelPlotSvg);
+            }
+        }
 
-                    boxPlot.plot();
+        if (this.layout.junctions !== null) {
+            this.plotJunctions(this.layout.junctions);
+        }
 
-                    acceptor_zoomPlotSvg.append("rect")
-                        .attr("class", "grid-background")
-                        .attr("x", 0)
-                        .attr("y", 0)
-                        .attr("width", acceptor_zoomPlotDimensions.width)
-                        .attr("height", acceptor_zoomPlotDimensions.height)
-                        .attr("fill", "#5FAD56")
-                        .attr("fill-opacity", 0.025)
-                        .attr("stroke", "#5FAD56")
-                        .attr("stroke-width", 2)
-                        .attr("stroke-opacity", 0.75);
+        this.plotNavigation();
 
-                    // build connector in the overlay between zoom and original points
-                    const acceptor_spacerSvg = this.grid.getCellSvg(0, 8);
-                    if (acceptor_spacerSvg) {
-                        const acceptor_spacerDimensions = this.grid.getCellDimensions(0, 8);
-                        const acceptor_spacerCoordinates = this.grid.getCellCoordinates(0, 8);
-                        const acceptor_spacerPlotDimensions = {
-                            width: acceptor_spacerDimensions?.width || 0,
-                            height: acceptor_spacerDimensions?.height || 0,
-                            x: acceptor_spacerCoordinates?.x || 0,
-                            y: acceptor_spacerCoordinates?.y || 0,
-                            fontSize: this.fontSize,
-                        };
+        // draw sites on overlays
+        for (const [id, rows] of this.layout.signals.entries()) {
+            this.plotSiteLines(this.signalTracks.get(id)!, rows);
+        }
 
-                        const zoom_intervals: [[number, number], [number, number]] = acceptor_dataPlotArray.getElementMapping(i);
-                        const acceptor_spacerPlot = new TriangleConnector({
-                            svg: acceptor_spacerSvg,
-                            dimensions: acceptor_spacerPlotDimensions,
-                            points: {
-                                top: (zoom_intervals[0][0] + zoom_intervals[0][1]) / 2,
-                                left: zoom_intervals[1][0],
-                                right: zoom_intervals[1][1],
-                                mid: (zoom_intervals[1][0] + zoom_intervals[1][1]) / 2
-                            },
-                            color: "green"
-                        });
-                        acceptor_spacerPlot.plot();
-                    }
-                }
-            }
-            // Add y-axis for each acceptor boxplot
-            const acceptor_boxplot_axis_svg = this.grid.getCellSvg(1, 9);
-            if (acceptor_boxplot_axis_svg && acceptor_positions.length > 0) {
-                const axisDimensions = this.grid.getCellDimensions(1, 9);
-                const acceptorsMaxYScale = computeMaxNonOutlierScore(this.bedFiles.acceptors.data);
-                
-                // Create y-axis scale
-                const yScale = d3.scaleLinear()
-                    .domain([0, acceptorsMaxYScale])
-                    .range([axisDimensions?.height || 0, 0]);
-                
-                // Add y-axis
-                const yAxis = d3.axisRight(yScale)
-                    .ticks(5)
-                    .tickSize(3);
-                
-                acceptor_boxplot_axis_svg.append("g")
-                    .attr("class", "y-axis")
-                    .style("font-size", `${this.fontSize}px`)
-                    .style("color", "#333")
-                    .call(yAxis);
-            }
+        for (const [id, rows] of this.layout.signals.entries()) {
+            this.plotSignalTrack(this.signalTracks.get(id)!, rows);
         }
 
-        this.grid.promote(0, 0);
-        this.grid.promote(0, 3);
-        this.grid.promote(0, 5);
+        if (this.layout.orf !== null) {
+            this.grid.promote(0, this.layout.orf);
+        }
+        for (const rows of this.layout.signals.values()) {
+            this.grid.promote(0, rows.fullGenome);
+            this.grid.promote(0, rows.zoom);
+        }
     }
 }
@@ -1,89 +1,136 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
+import { Form } from 'react-bootstrap';
 import * as d3 from 'd3';
 
-import { Transcriptome, BedFile } from 'sparrowgenomelib';
-import { SplicePlot } from './SplicePlot';
+import { Transcriptome } from 'sparrowgenomelib';
+import { SplicePlot, PlotHoverInfo, SiteLabelEdit, SiteSelection } from './SplicePlot';
+import SiteInspector from '../SiteInspector/SiteInspector';
+import { SampleGroups, SampleGroupDisplay } from '../../utils/sampleGroups';
+import { formatNearestExon } from '../../utils/transcriptomeUtils';
+import { SiteTestResult } from '../../utils/siteTests';
+import { SignalTrack, anchorPositions } from '../../utils/signalTracks';
+import { SignalSummary } from '../../utils/signalSummary';
+import { SiteTableFormat, buildSiteTable, siteTableToText } from '../../utils/siteTable';
+import { Junction } from '../../utils/junctions';
+import { SiteNames } from '../../utils/siteLabels';
+import { PlotTheme } from '../../utils/themes';
+import { SampleTimepoints } from '../../utils/timepoints';
+import { TrackConfig } from './trackLayout';
+import {
+    ExportFormat,
+    pngResolutions,
+    prepareFigureSvg,
+    serializeSvg,
+    svgToPngBlob,
+    svgToPdfBlob,
+    downloadBlob
+} from '../../utils/exportFigure';
+import '@fontsource/roboto/400.css';
+import '@fontsource/roboto/700.css';
 import './SplicePlotWrapper.css';
 
 interface SplicePlotWrapperProps {
     transcriptome: Transcriptome;
-    bedFiles: {donors: BedFile, acceptors: BedFile};
+    signalTracks: SignalTrack[];
+    signalSummaries: Map<string, SignalSummary>;
+    seqid: string;
+    referenceSequence: string | null;
+    junctions: Junction[];
+    siteNames: SiteNames;
+    onSiteNameChange: (position: number, name: string | null) => void; // null restores the automatic name
+    onExcludeSite: (trackId: string, position: number) => void;
+    theme: PlotTheme;
     zoomWidth: number;
     zoomWindowWidth: number;
     width: number;
     height: number;
     fontSize: number;
+    tracks: TrackConfig[];
+    sampleGroups: SampleGroups | null;
+    groupDisplay: SampleGroupDisplay;
+    timepoints: SampleTimepoints | null;
+    siteTests: SiteTestResult[] | null;
+    transcriptOrientation: boolean;
+    viewRange: [number, number] | null;
+    onViewRangeChange: (range: [number, number] | null) => void;
+    figureName: string; // base name of downloaded figures
 }
 
 const SplicePlotWrapper: React.FC<SplicePlotWrapperProps> = ({ 
     transcriptome,
-    bedFiles: bedFiles, 
+    signalTracks,
+    signalSummaries,
+    seqid,
+    referenceSequence,
+    junctions,
+    siteNames,
+    onSiteNameChange,
+    onExcludeSite,
+    theme,
     zoomWidth, 
     zoomWindowWidth,
     width, 
     height, 
-    fontSize 
+    fontSize,
+    tracks,
+    sampleGroups,
+    groupDisplay,
+    timepoints,
+    siteTests,
+    transcriptOrientation,
+    viewRange,
+    onViewRangeChange,
+    figureName
 }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
+    const svgContainerRef = useRef<HTMLDivElement | null>(null);
+    const [hover, setHover] = useState<{ info: PlotHoverInfo, x: number, y: number } | null>(null);
+    const [selectedSite, setSelectedSite] = useState<SiteSelection | null>(null);
+    const [pngDpi, setPngDpi] = useState<number>(300);
+    const [textToPaths, setTextToPaths] = useState<boolean>(false);
+    const [exporting, setExporting] = useState<boolean>(false);
+    const [exportError, setExportError] = useState<string>("");
+    const [dataFormat, setDataFormat] = useState<SiteTableFormat>("tsv");
+    const [labelEdit, setLabelEdit] = useState<{ edit: SiteLabelEdit, x: number, y: number } | null>(null);
 
-    const handleSvgDownload = () => {
-        if (svgRef.current) {
-            const svgElement = svgRef.current;
-            const svgString = new XMLSerializer().serializeToString(svgElement);
-            const blob = new Blob([svgString], { type: 'image/svg+xml' });
-            const url = URL.createObjectURL(blob);
-
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'chimviz_plot.svg';
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+    const commitLabelEdit = (value: string) => {
+        if (labelEdit && value.trim() !== labelEdit.edit.name) {
+            onSiteNameChange(labelEdit.edit.position, value.trim() === "" ? null : value.trim());
         }
+        setLabelEdit(null);
     };
 
-    const handlePngDownload = () => {
-        if (svgRef.current) {
-            const svgElement = svgRef.current;
-            const svgString = new XMLSerializer().serializeToString(svgElement);
-            
-            // Create a canvas element
-            const canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            
-            if (ctx) {
-                // Create an image from the SVG
-                const img = new Image();
-                const blob = new Blob([svgString], { type: 'image/svg+xml' });
-                const url = URL.createObjectURL(blob);
-                
-                img.onload = () => {
-                    // Draw the image on the canvas
-                    ctx.fillStyle = 'white';
-                    ctx.fillRect(0, 0, canvas.width, canvas.height);
-                    ctx.drawImage(img, 0, 0);
-                    
-                    // Convert canvas to PNG
-                    const pngUrl = canvas.toDataURL('image/png');
-                    
-                    // Download the PNG
-                    const a = document.createElement('a');
-                    a.href = pngUrl;
-                    a.download = 'chimviz_plot.png';
-                    document.body.appendChild(a);
-                    a.click();
-                    document.body.removeChild(a);
-                    
-                    // Clean up
-                    URL.revokeObjectURL(url);
-                };
-                
-                img.src = url;
+    // Export a self-contained copy of the plot in the chosen format
+    const handleDownload = async (format: ExportFormat) => {
+        if (!svgRef.current) return;
+        setExporting(true);
+        try {
+            const figure = await prepareFigureSvg(svgRef.current, { textToPaths });
+            if (format === "svg") {
+                downloadBlob(new Blob([serializeSvg(figure)], { type: "image/svg+xml" }), `${figureName}.svg`);
+            } else if (format === "png") {
+                downloadBlob(await svgToPngBlob(serializeSvg(figure), width, height, pngDpi), `${figureName}_${pngDpi}dpi.png`);
+            } else {
+                downloadBlob(await svgToPdfBlob(figure, width, height), `${figureName}.pdf`);
             }
+        } catch (error) {
+            setExportError(`Unable to export the figure. ${(error as Error).message}`);
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    // Per-site summary statistics behind the zoom cells, one row per site and position
+    const handleDataDownload = () => {
+        try {
+            const plotted = signalTracks.filter(track =>
+                track.bedFile.status === 1 && tracks.some(config => config.id === track.id && config.visible));
+            const rows = buildSiteTable(plotted, signalSummaries, transcriptome, zoomWidth, viewRange);
+            const type = dataFormat === "csv" ? "text/csv" : "text/tab-separated-values";
+            downloadBlob(new Blob([siteTableToText(rows, dataFormat)], { type }), `${figureName}_sites.${dataFormat}`);
+        } catch (error) {
+            setExportError(`Unable to export the data. ${(error as Error).message}`);
         }
     };
 
@@ -92,32 +139,167 @@ const SplicePlotWrapper: React.FC<SplicePlotWrapperProps> = ({
         const svg = d3.select(svgRef.current);
         svg.selectAll("*").remove();
 
-        console.log("bedFiles", bedFiles);
-        
         const splicePlot = new SplicePlot(svg, { 
             transcriptome,
-            bedFiles: bedFiles, 
+            signalTracks,
+            signalSummaries,
+            seqid,
+            referenceSequence,
+            junctions,
+            siteNames,
+            theme,
             zoomWidth, 
             zoomWindowWidth,
             width, 
             height, 
-            fontSize });
+            fontSize,
+            tracks,
+            sampleGroups,
+            groupDisplay,
+            timepoints,
+            siteTests,
+            transcriptOrientation,
+            onHover: (info, event) => {
+                const container = svgContainerRef.current;
+                if (!info || !container) {
+                    setHover(null);
+                    return;
+                }
+                // position the tooltip relative to the scrollable svg container
+                const rect = container.getBoundingClientRect();
+                setHover({
+                    info,
+                    x: event.clientX - rect.left + container.scrollLeft + 12,
+                    y: event.clientY - rect.top + container.scrollTop + 12,
+                });
+            },
+            onSiteClick: setSelectedSite,
+            onSiteLabelEdit: (edit, event) => {
+                const container = svgContainerRef.current;
+                if (!container) {
+                    return;
+                }
+                const rect = container.getBoundingClientRect();
+                setLabelEdit({
+                    edit,
+                    x: event.clientX - rect.left + container.scrollLeft,
+                    y: event.clientY - rect.top + container.scrollTop,
+                });
+            },
+            viewRange,
+            onViewRangeChange });
         splicePlot.plot();
-    }, [transcriptome, bedFiles, zoomWidth, zoomWindowWidth, width, height, fontSize]);
+    }, [transcriptome, signalTracks, signalSummaries, seqid, referenceSequence, junctions, siteNames, theme, zoomWidth, zoomWindowWidth, width, height, fontSize, tracks, sampleGroups, groupDisplay, timepoints, siteTests, transcriptOrientation, viewRange, onViewRangeChange]);
+
+    // the inspected track may have been removed since the click
+    const selectedTrack = selectedSite ? signalTracks.find(track => track.id === selectedSite.trackId) : undefined;
 
     return (
         <div className="plot-container" ref={containerRef}>
-            <div className="svg-container">
-                <svg ref={svgRef} width={width} height={height} preserveAspectRatio="xMinYMin meet"></svg>
+            <div className="plot-row">
+                <div className="svg-container" ref={svgContainerRef}>
+                    <svg ref={svgRef} width={width} height={height} preserveAspectRatio="xMinYMin meet"></svg>
+                    {hover && (
+                        <div className="plot-tooltip" style={{ left: hover.x, top: hover.y }}>
+                            <div className="plot-tooltip-title">
+                                {hover.info.trackName}
+                                {hover.info.element === "site" ? " site" : ""} at {hover.info.position}
+                            </div>
+                            <div>Nearest exon: {formatNearestExon(hover.info.nearestExon)}</div>
+                            {hover.info.summary ? (
+                                <>
+                                    <div>Samples: {hover.info.summary.n}</div>
+                                    <div>Median: {hover.info.summary.median.toFixed(3)} (IQR {hover.info.summary.q1.toFixed(3)}-{hover.info.summary.q3.toFixed(3)})</div>
+                                </>
+                            ) : (
+                                <div>Samples: 0</div>
+                            )}
+                            {hover.info.mean !== null && <div>Mean: {hover.info.mean.toFixed(3)}</div>}
+                        </div>
+                    )}
+                    {labelEdit && (
+                        <Form.Control
+                            className="site-label-editor"
+                            size="sm"
+                            autoFocus
+                            defaultValue={labelEdit.edit.name}
+                            aria-label={`Name of the site at ${labelEdit.edit.position}`}
+                            style={{ left: labelEdit.x, top: labelEdit.y }}
+                            onBlur={(e) => commitLabelEdit(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                    commitLabelEdit(e.currentTarget.value);
+                                } else if (e.key === "Escape") {
+                                    setLabelEdit(null);
+                                }
+                            }}
+                        />
+                    )}
+                </div>
+                {selectedTrack && selectedSite && (
+                    <SiteInspector
+                        site={selectedSite}
+                        trackName={selectedTrack.name}
+                        bedData={selectedTrack.bedFile.data}
+                        sampleGroups={sampleGroups}
+                        timepoints={timepoints}
+                        trackColor={selectedTrack.color}
+                        onClose={() => setSelectedSite(null)}
+                        onExclude={anchorPositions(selectedTrack, transcriptome).includes(selectedSite.position)
+                            ? () => {
+                                onExcludeSite(selectedSite.trackId, selectedSite.position);
+                                setSelectedSite(null);
+                            }
+                            : undefined}
+                    />
+                )}
             </div>
             <div className="download-buttons">
-                <button className="download-button svg-button" onClick={handleSvgDownload}>
+                <button className="download-button svg-button" disabled={exporting} onClick={() => handleDownload("svg")}>
                     Download SVG
                 </button>
-                <button className="download-button png-button" onClick={handlePngDownload}>
+                <button className="download-button png-button" disabled={exporting} onClick={() => handleDownload("png")}>
                     Download PNG
                 </button>
+                <Form.Select
+                    size="sm"
+                    className="png-resolution"
+                    value={pngDpi}
+                    aria-label="PNG resolution"
+                    onChange={(e) => setPngDpi(Number(e.target.value))}
+                >
+                    {pngResolutions.map(dpi => (
+                        <option key={dpi} value={dpi}>{dpi} dpi</option>
+                    ))}
+                </Form.Select>
+                <button className="download-button pdf-button" disabled={exporting} onClick={() => handleDownload("pdf")}>
+                    Download PDF
+                </button>
+                <Form.Check
+                    type="checkbox"
+                    id="textToPaths"
+                    className="text-to-paths"
+                    label="Text as outlines"
+                    checked={textToPaths}
+                    onChange={(e) => setTextToPaths(e.target.checked)}
+                />
+                <button className="download-button data-button" onClick={handleDataDownload}>
+                    Download data
+                </button>
+                <Form.Select
+                    size="sm"
+                    className="data-format"
+                    value={dataFormat}
+                    aria-label="Data format"
+                    onChange={(e) => setDataFormat(e.target.value as SiteTableFormat)}
+                >
+                    <option value="tsv">TSV</option>
+                    <option value="csv">CSV</option>
+                </Form.Select>
             </div>
+            {exportError !== "" && (
+                <div className="text-danger" onClick={() => setExportError("")}>{exportError}</div>
+            )}
         </div>
     );
 };
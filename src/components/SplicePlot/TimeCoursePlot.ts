@@ -0,0 +1,111 @@
+import * as d3 from 'd3';
+
+import { TimeCourse } from '../../utils/timepoints';
+import { YScale } from '../../utils/yScales';
+
+interface TimeCoursePlotDimensions {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+interface TimeCoursePlotData {
+    dimensions: TimeCoursePlotDimensions;
+    course: TimeCourse;
+    times: number[]; // all timepoints of the data set, so that every cell shares the same time axis
+    yScale: YScale;
+    colors: { [subject: string]: string };
+    trendColor: string;
+    textColor: string;
+}
+
+// Usage of a site over time: one thin line per subject and the mean over all subjects as a thick line.
+// Timepoints are labelled along the bottom of the cell.
+export class TimeCoursePlot {
+    private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private dimensions: TimeCoursePlotDimensions;
+    private course: TimeCourse;
+    private times: number[];
+    private yScale: YScale;
+    private colors: { [subject: string]: string };
+    private trendColor: string;
+    private textColor: string;
+
+    constructor(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        data: TimeCoursePlotData) {
+        this.svg = svg;
+        this.dimensions = data.dimensions;
+        this.course = data.course;
+        this.times = data.times;
+        this.yScale = data.yScale;
+        this.colors = data.colors;
+        this.trendColor = data.trendColor;
+        this.textColor = data.textColor;
+    }
+
+    public plot(): void {
+        const { width, height, fontSize } = this.dimensions;
+        const labelSize = fontSize * 0.7;
+        const padding = Math.min(labelSize, width / 4);
+        const [first, last] = d3.extent(this.times) as [number, number];
+        const timeScale = d3.scaleLinear()
+            .domain(first === last ? [first - 1, last + 1] : [first, last])
+            .range([padding, width - padding]);
+
+        const plotGroup = this.svg.append("g").attr("class", "time-course-plot");
+
+        this.course.subjects.forEach(({ subject, points }) => {
+            const line = d3.line<{ time: number, score: number }>()
+                .x(d => timeScale(d.time))
+                .y(d => this.yScale(d.score));
+            const path = plotGroup.append("path")
+                .datum(points)
+                .attr("d", line)
+                .attr("fill", "none")
+                .attr("stroke", this.colors[subject])
+                .attr("stroke-opacity", 0.7)
+                .attr("stroke-width", 1);
+            path.append("title").text(subject);
+            plotGroup.selectAll(null)
+                .data(points)
+                .enter()
+                .append("circle")
+                .attr("cx", d => timeScale(d.time))
+                .attr("cy", d => this.yScale(d.score))
+                .attr("r", 1.5)
+                .attr("fill", this.colors[subject]);
+        });
+
+        const trend = d3.line<{ time: number, mean: number }>()
+            .x(d => timeScale(d.time))
+            .y(d => this.yScale(d.mean));
+        plotGroup.append("path")
+            .datum(this.course.trend)
+            .attr("class", "time-course-trend")
+            .attr("d", trend)
+            .attr("fill", "none")
+            .attr("stroke", this.trendColor)
+            .attr("stroke-width", 2.5);
+
+        // skip labels that would overlap their left neighbour
+        let lastLabelEnd = -Infinity;
+        this.times.forEach(time => {
+            const x = timeScale(time);
+            const label = String(time);
+            const halfWidth = label.length * labelSize * 0.3;
+            if (x - halfWidth < lastLabelEnd) {
+                return;
+            }
+            lastLabelEnd = x + halfWidth + 2;
+            plotGroup.append("text")
+                .attr("x", x)
+                .attr("y", height - 2)
+                .attr("text-anchor", "middle")
+                .style("font-size", `${labelSize}px`)
+                .attr("fill", this.textColor)
+                .text(label);
+        });
+    }
+}
@@ -0,0 +1,88 @@
+export interface TrackConfig {
+    id: string; // "orf", "transcriptome", "junctions" or the id of a signal track
+    visible: boolean;
+    height: number; // relative height of the track
+}
+
+export const trackLabels: { [id: string]: string } = {
+    orf: "ORFs",
+    transcriptome: "Transcripts",
+    junctions: "Junctions",
+};
+
+// tracks that are always available, as opposed to signal tracks
+export const builtinTrackIds = ["orf", "transcriptome", "junctions"] as const;
+type BuiltinTrackId = typeof builtinTrackIds[number];
+
+export function isBuiltinTrack(id: string): id is BuiltinTrackId {
+    return (builtinTrackIds as readonly string[]).includes(id);
+}
+
+// layout entry for a newly added signal track
+export function signalTrackConfig(id: string): TrackConfig {
+    return { id, visible: true, height: 0.25 };
+}
+
+export const defaultTrackLayout: TrackConfig[] = [
+    { id: "orf", visible: true, height: 0.1 },
+    { id: "transcriptome", visible: true, height: 0.45 },
+    { id: "junctions", visible: false, height: 0.2 },
+    { id: "donors", visible: true, height: 0.25 },
+    { id: "acceptors", visible: true, height: 0.25 },
+];
+
+// Layouts saved before a built-in track existed get it appended, hidden
+export function withBuiltinTracks(tracks: TrackConfig[]): TrackConfig[] {
+    const missing = defaultTrackLayout
+        .filter(track => isBuiltinTrack(track.id) && !tracks.some(config => config.id === track.id))
+        .map(track => ({ ...track, visible: false }));
+    return [...tracks, ...missing];
+}
+
+// Signal tracks occupy four grid rows: a spacer, the full genome barplot,
+// the spacer holding the zoom connectors and the zoom cells.
+const siteTrackRowFractions = [0.1, 0.2, 0.1, 0.6];
+
+export interface SignalTrackRows {
+    spacer: number;
+    fullGenome: number;
+    connector: number;
+    zoom: number;
+}
+
+export interface GridLayout {
+    rowRatios: number[];
+    orf: number | null; // grid row of each track, null when hidden
+    transcriptome: number | null;
+    junctions: number | null;
+    signals: Map<string, SignalTrackRows>; // rows of the visible signal tracks in plotting order
+}
+
+// Translate the ordered track list into grid row ratios and the row index of every visible track
+export function buildGridLayout(tracks: TrackConfig[]): GridLayout {
+    const layout: GridLayout = {
+        rowRatios: [],
+        orf: null,
+        transcriptome: null,
+        junctions: null,
+        signals: new Map(),
+    };
+
+    tracks.filter(track => track.visible).forEach(track => {
+        const row = layout.rowRatios.length;
+        if (isBuiltinTrack(track.id)) {
+            layout[track.id] = row;
+            layout.rowRatios.push(track.height);
+            return;
+        }
+        layout.signals.set(track.id, { spacer: row, fullGenome: row + 1, connector: row + 2, zoom: row + 3 });
+        siteTrackRowFractions.forEach(fraction => layout.rowRatios.push(track.height * fraction));
+    });
+
+    return layout;
+}
+
+// rows from the top of the plot down to (not including) the given row - spanned by the dashed site overlays
+export function rowsAbove(row: number): number[] {
+    return Array.from({ length: row }, (_, i) => i);
+}
@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from "react";
+import { Button, Table } from "react-bootstrap";
+
+import { SiteTestResult, significanceLabel, siteTestsToTsv } from "../../utils/siteTests";
+import "./StatsTable.css";
+
+type SortKey = 'trackName' | 'position' | 'statistic' | 'pValue' | 'adjustedPValue' | 'effectSize';
+
+interface StatsTableProps {
+    results: SiteTestResult[];
+}
+
+const columns: { key: SortKey, label: string }[] = [
+    { key: "trackName", label: "Track" },
+    { key: "position", label: "Position" },
+    { key: "statistic", label: "Statistic" },
+    { key: "effectSize", label: "Effect size" },
+    { key: "pValue", label: "p" },
+    { key: "adjustedPValue", label: "BH adjusted p" },
+];
+
+const StatsTable: React.FC<StatsTableProps> = ({ results }) => {
+    const [sortKey, setSortKey] = useState<SortKey>("adjustedPValue");
+    const [ascending, setAscending] = useState<boolean>(true);
+
+    const sortedResults = useMemo(() => {
+        const sorted = results.slice().sort((a, b) => {
+            const x = a[sortKey];
+            const y = b[sortKey];
+            if (typeof x === "string" && typeof y === "string") {
+                return x.localeCompare(y) || a.position - b.position;
+            }
+            return (x as number) - (y as number);
+        });
+        return ascending ? sorted : sorted.reverse();
+    }, [results, sortKey, ascending]);
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setAscending(!ascending);
+        } else {
+            setSortKey(key);
+            setAscending(true);
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([siteTestsToTsv(sortedResults)], { type: "text/tab-separated-values" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = "site_group_tests.tsv";
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="stats-table">
+            <div className="stats-table-header">
+                <h6>Group comparison per site ({results.length} tested)</h6>
+                <Button size="sm" variant="outline-primary" onClick={handleExport}>Export TSV</Button>
+            </div>
+            <div className="stats-table-scroll">
+                <Table size="sm" striped hover>
+                    <thead>
+                        <tr>
+                            {columns.map(column => (
+                                <th key={column.key} className="sortable" onClick={() => handleSort(column.key)}>
+                                    {column.label}{sortKey === column.key ? (ascending ? " ▲" : " ▼") : ""}
+                                </th>
+                            ))}
+                            <th>Test</th>
+                            <th>Groups (n, median)</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedResults.map(result => (
+                            <tr key={`${result.trackId}:${result.position}`}>
+                                <td>{result.trackName}</td>
+                                <td>{result.position}</td>
+                                <td>{result.statistic.toFixed(3)}</td>
+                                <td>{result.effectSize.toFixed(3)}</td>
+                                <td>{result.pValue.toExponential(2)}</td>
+                                <td>{result.adjustedPValue.toExponential(2)}</td>
+                                <td>{result.test}</td>
+                                <td>{result.groups.map(group => `${group.name} (${group.n}, ${group.median.toFixed(3)})`).join(", ")}</td>
+                                <td className="significance">{significanceLabel(result.adjustedPValue)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </Table>
+            </div>
+        </div>
+    );
+};
+
+export default StatsTable;
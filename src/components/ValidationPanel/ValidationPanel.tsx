@@ -0,0 +1,54 @@
+import React from "react";
+import { Badge, Button, Card } from "react-bootstrap";
+
+import { ValidationReport, issueExtent } from "../../utils/validation";
+import "./ValidationPanel.css";
+
+interface ValidationPanelProps {
+    report: ValidationReport;
+    blocked: boolean; // the plot waits until the errors are fixed or accepted
+    onPlotAnyway: () => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ report, blocked, onPlotAnyway }) => {
+    const counts = [
+        report.errors > 0 ? `${report.errors} error${report.errors === 1 ? "" : "s"}` : "",
+        report.warnings > 0 ? `${report.warnings} warning${report.warnings === 1 ? "" : "s"}` : "",
+    ].filter(count => count !== "").join(", ");
+
+    return (
+        <Card className="validation-panel" border={report.errors > 0 ? "danger" : "warning"}>
+            <Card.Body>
+                <div className="validation-panel-header">
+                    <h6>Input check: {counts}</h6>
+                    {blocked && (
+                        <Button variant="outline-danger" size="sm" onClick={onPlotAnyway}>
+                            Plot anyway
+                        </Button>
+                    )}
+                </div>
+                {blocked && (
+                    <div className="validation-panel-note">
+                        The plot is held back until the errors are fixed. Upload corrected files or plot the data as it is.
+                    </div>
+                )}
+                <ul className="validation-issues">
+                    {report.issues.map((issue, i) => (
+                        <li key={i}>
+                            <Badge bg={issue.severity === "error" ? "danger" : "warning"} text={issue.severity === "error" ? undefined : "dark"}>
+                                {issue.severity}
+                            </Badge>
+                            <span className="validation-issue-input">{issue.input}</span>
+                            <span>{issue.message}</span>
+                            {issueExtent(issue) !== "" && (
+                                <span className="validation-issue-extent">({issueExtent(issue)})</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </Card.Body>
+        </Card>
+    );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,46 @@
+import gtfUrl from './csess.1.1.0.gtf?url';
+import gtfTrimmedUrl from './csess.1.1.0.trimmed.gtf?url';
+import donorsUrl from './donor_cov_dist_frac.bed?url';
+import donorsTrimmedUrl from './donor_cov_dist_frac.256trimmed.bed?url';
+import acceptorsUrl from './acceptor_cov_dist_frac.bed?url';
+import acceptorsTrimmedUrl from './acceptor_cov_dist_frac.256trimmed.bed?url';
+
+export type ExampleVariant = 'full' | 'trimmed';
+
+interface ExampleFileSource {
+    url: string;
+    fileName: string;
+}
+
+export interface ExampleDataset {
+    label: string;
+    gtf: ExampleFileSource;
+    donors: ExampleFileSource;
+    acceptors: ExampleFileSource;
+}
+
+// SIV (M33262.1) annotation with per-sample donor and acceptor usage shipped with the app
+export const exampleDatasets: { [variant in ExampleVariant]: ExampleDataset } = {
+    full: {
+        label: "SIV M33262.1 (full genome)",
+        gtf: { url: gtfUrl, fileName: "csess.1.1.0.gtf" },
+        donors: { url: donorsUrl, fileName: "donor_cov_dist_frac.bed" },
+        acceptors: { url: acceptorsUrl, fileName: "acceptor_cov_dist_frac.bed" },
+    },
+    trimmed: {
+        label: "SIV M33262.1 (first 256 bp trimmed)",
+        gtf: { url: gtfTrimmedUrl, fileName: "csess.1.1.0.trimmed.gtf" },
+        donors: { url: donorsTrimmedUrl, fileName: "donor_cov_dist_frac.256trimmed.bed" },
+        acceptors: { url: acceptorsTrimmedUrl, fileName: "acceptor_cov_dist_frac.256trimmed.bed" },
+    },
+};
+
+// Fetch a bundled example file and wrap it in a File so it goes through the same parsers as uploads
+export async function fetchExampleFile(source: ExampleFileSource): Promise<File> {
+    const response = await fetch(source.url);
+    if (!response.ok) {
+        throw new Error(`Unable to load example file ${source.fileName}: ${response.status} ${response.statusText}`);
+    }
+    const blob = await response.blob();
+    return new File([blob], source.fileName, { type: "text/plain" });
+}
@@ -0,0 +1,35 @@
+import { BedLine } from 'sparrowgenomelib';
+
+import { LineParseError } from './inputFiles';
+
+// comment, header and blank lines carry no data
+export function isBedHeaderLine(line: string): boolean {
+    const trimmed = line.trim();
+    return trimmed === "" || trimmed.startsWith("#") || trimmed.startsWith("track") || trimmed.startsWith("browser");
+}
+
+// Parse one line of a BED file: chrom, start, end, name, score and an optional strand.
+// Errors name the 1-based column that failed.
+export function parseBedLine(line: string): BedLine {
+    const fields = line.split("\t");
+    if (fields.length < 5) {
+        throw new LineParseError(`expected at least 5 tab-separated columns (chrom, start, end, name, score), found ${fields.length}`);
+    }
+    const start = Number(fields[1]);
+    if (fields[1] === "" || !Number.isInteger(start) || start < 0) {
+        throw new LineParseError(`start must be a non-negative integer, got "${fields[1]}"`, 2);
+    }
+    const end = Number(fields[2]);
+    if (fields[2] === "" || !Number.isInteger(end) || end <= start) {
+        throw new LineParseError(`end must be an integer greater than start, got "${fields[2]}"`, 3);
+    }
+    const score = Number(fields[4]);
+    if (fields[4] === "" || !Number.isFinite(score)) {
+        throw new LineParseError(`score must be a number, got "${fields[4]}"`, 5);
+    }
+    const strand = fields[5]?.trim() || ".";
+    if (!["+", "-", "."].includes(strand)) {
+        throw new LineParseError(`strand must be +, - or ., got "${fields[5]}"`, 6);
+    }
+    return { seqid: fields[0], start, end, name: fields[3], score, strand };
+}
@@ -0,0 +1,61 @@
+import * as d3 from 'd3';
+
+import { SignalSummary } from './signalSummary';
+import { Strand, strandsAgree } from './transcriptomeUtils';
+
+// Condition B of a compared track drawn below condition A (mirror) or subtracted from it (delta)
+export type CompareDisplay = 'mirror' | 'delta';
+
+// number of sites per track marked as the largest changes between the conditions
+export const HIGHLIGHTED_CHANGES = 3;
+
+export interface SiteChange {
+    position: number;
+    meanA: number | null; // null when the condition has no values at the site
+    meanB: number | null;
+    delta: number; // meanA - meanB, missing means count as 0
+}
+
+// Sample scores per position from start to end (inclusive) on the strand of the site. Positions without values
+// are left out.
+export function windowScores(summary: SignalSummary, start: number, end: number, strand: Strand): Map<number, number[]> {
+    const scores: Map<number, number[]> = new Map();
+    for (let pos = start; pos <= end; pos++) {
+        const values = (summary.scores.get(pos) ?? []).filter(value => strandsAgree(value.strand, strand));
+        if (values.length > 0) {
+            scores.set(pos, values.map(value => value.score));
+        }
+    }
+    return scores;
+}
+
+export function windowMeans(summary: SignalSummary, start: number, end: number, strand: Strand): Map<number, number> {
+    const scores = windowScores(summary, start, end, strand);
+    return new Map(Array.from(scores.entries()).map(([pos, values]) => [pos, d3.mean(values) ?? 0]));
+}
+
+export function siteChange(a: SignalSummary, b: SignalSummary, position: number, strand: Strand): SiteChange {
+    const meanA = windowMeans(a, position, position, strand).get(position) ?? null;
+    const meanB = windowMeans(b, position, position, strand).get(position) ?? null;
+    return { position, meanA, meanB, delta: (meanA ?? 0) - (meanB ?? 0) };
+}
+
+// Positions of the sites whose mean changes the most between the conditions, in either direction
+export function largestChanges(changes: SiteChange[], count: number = HIGHLIGHTED_CHANGES): Set<number> {
+    return new Set(changes
+        .filter(change => change.delta !== 0)
+        .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta))
+        .slice(0, count)
+        .map(change => change.position));
+}
+
+// Largest absolute difference of the means at any position from start to end, for symmetric delta axes
+export function maxAbsDelta(a: SignalSummary, b: SignalSummary, start: number, end: number, strand: Strand): number {
+    const meansA = windowMeans(a, start, end, strand);
+    const meansB = windowMeans(b, start, end, strand);
+    let max = 0;
+    for (let pos = start; pos <= end; pos++) {
+        max = Math.max(max, Math.abs((meansA.get(pos) ?? 0) - (meansB.get(pos) ?? 0)));
+    }
+    return max;
+}
@@ -0,0 +1,270 @@
+import { Font, parse as parseFont } from 'opentype.js';
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+
+import robotoRegularUrl from '@fontsource/roboto/files/roboto-latin-400-normal.woff?url';
+import robotoBoldUrl from '@fontsource/roboto/files/roboto-latin-700-normal.woff?url';
+
+import { uncompressedName } from './inputFiles';
+
+// Font used for the plot on screen and embedded into exported figures
+export const FIGURE_FONT_FAMILY = "Roboto";
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+export interface ExportOptions {
+    textToPaths: boolean; // replace text by outlines so the figure does not depend on fonts at all
+}
+
+// PNG resolutions offered for download. 72 dpi corresponds to one pixel per SVG unit.
+export const pngResolutions = [72, 150, 300, 600];
+
+// presentation properties copied from the computed style into exported elements
+const inlinedProperties = [
+    "fill", "fill-opacity", "stroke", "stroke-width", "stroke-opacity", "stroke-dasharray", "stroke-linecap",
+    "opacity", "font-size", "font-weight", "font-style", "text-anchor", "dominant-baseline", "visibility",
+];
+
+// interaction-only elements that have no place in a figure
+const interactiveSelectors = [".site-hit-target", ".mean-hit-target", ".zoom-hit-target", ".navigation-brush"];
+
+interface FigureFont {
+    weight: number;
+    data: ArrayBuffer;
+    font: Font;
+}
+
+let figureFonts: Promise<FigureFont[]> | null = null;
+
+function loadFigureFonts(): Promise<FigureFont[]> {
+    figureFonts ??= Promise.all([
+        { weight: 400, url: robotoRegularUrl },
+        { weight: 700, url: robotoBoldUrl },
+    ].map(async ({ weight, url }) => {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Unable to load the figure font (${response.status})`);
+        }
+        const data = await response.arrayBuffer();
+        return { weight, data, font: parseFont(data) };
+    }));
+    return figureFonts;
+}
+
+function toBase64(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+// Copy the computed style of every element of the live plot onto the matching element of its clone
+function inlineComputedStyles(source: SVGSVGElement, clone: SVGSVGElement): void {
+    const sourceElements = [source, ...Array.from(source.querySelectorAll("*"))];
+    const cloneElements = [clone, ...Array.from(clone.querySelectorAll("*"))];
+    sourceElements.forEach((element, i) => {
+        const computed = window.getComputedStyle(element);
+        const target = cloneElements[i] as SVGElement;
+        inlinedProperties.forEach(property => {
+            const value = computed.getPropertyValue(property);
+            if (value !== "") {
+                target.style.setProperty(property, value);
+            }
+        });
+        if (element.tagName === "text" || element.tagName === "tspan") {
+            target.style.setProperty("font-family", `${FIGURE_FONT_FAMILY}, sans-serif`);
+        }
+    });
+}
+
+function embedFonts(svg: SVGSVGElement, fonts: FigureFont[]): void {
+    const style = document.createElementNS("http://www.w3.org/2000/svg", "style");
+    style.textContent = fonts.map(({ weight, data }) =>
+        `@font-face { font-family: "${FIGURE_FONT_FAMILY}"; font-weight: ${weight}; ` +
+        `src: url(data:font/woff;base64,${toBase64(data)}) format("woff"); }`
+    ).join("\n");
+    const defs = document.createElementNS("http://www.w3.org/2000/svg", "defs");
+    defs.appendChild(style);
+    svg.insertBefore(defs, svg.firstChild);
+}
+
+// dx/dy may be given in em, as d3 axes do
+function lengthAttribute(element: Element, name: string, fontSize: number): number {
+    const value = element.getAttribute(name) ?? "0";
+    return value.endsWith("em") ? parseFloat(value) * fontSize : parseFloat(value) || 0;
+}
+
+// Replace every text element by a path with the outlines of its glyphs
+function convertTextToPaths(svg: SVGSVGElement, fonts: FigureFont[]): void {
+    svg.querySelectorAll("text").forEach(text => {
+        const style = text.style;
+        const fontSize = parseFloat(style.getPropertyValue("font-size")) || 10;
+        const bold = (parseInt(style.getPropertyValue("font-weight")) || 400) >= 600;
+        const font = (bold ? fonts.find(f => f.weight === 700) : fonts.find(f => f.weight === 400))!.font;
+        const content = text.textContent ?? "";
+
+        let x = lengthAttribute(text, "x", fontSize) + lengthAttribute(text, "dx", fontSize);
+        let y = lengthAttribute(text, "y", fontSize) + lengthAttribute(text, "dy", fontSize);
+        const anchor = style.getPropertyValue("text-anchor");
+        const advance = font.getAdvanceWidth(content, fontSize);
+        if (anchor === "middle") {
+            x -= advance / 2;
+        } else if (anchor === "end") {
+            x -= advance;
+        }
+        const baseline = style.getPropertyValue("dominant-baseline");
+        if (baseline === "middle" || baseline === "central") {
+            y += fontSize * 0.35;
+        } else if (baseline === "hanging" || baseline === "text-before-edge") {
+            y += fontSize * 0.8;
+        }
+
+        const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+        path.setAttribute("d", font.getPath(content, x, y, fontSize).toPathData(2));
+        ["transform", "class"].forEach(name => {
+            const value = text.getAttribute(name);
+            if (value !== null) {
+                path.setAttribute(name, value);
+            }
+        });
+        path.style.setProperty("fill", style.getPropertyValue("fill") || "black");
+        path.style.setProperty("fill-opacity", style.getPropertyValue("fill-opacity") || "1");
+        text.replaceWith(path);
+    });
+}
+
+// Self-contained copy of the plot: computed styles inlined, interaction layers removed and the font embedded
+// (or text converted to outlines)
+export async function prepareFigureSvg(svg: SVGSVGElement, options: ExportOptions): Promise<SVGSVGElement> {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    inlineComputedStyles(svg, clone);
+    clone.querySelectorAll(interactiveSelectors.join(", ")).forEach(element => element.remove());
+    clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+
+    const fonts = await loadFigureFonts();
+    if (options.textToPaths) {
+        convertTextToPaths(clone, fonts);
+    } else {
+        embedFonts(clone, fonts);
+    }
+    return clone;
+}
+
+export function serializeSvg(svg: SVGSVGElement): string {
+    return new XMLSerializer().serializeToString(svg);
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    bytes.forEach(byte => {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    });
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Record the resolution in a pHYs chunk right after the IHDR chunk so that other tools pick up the DPI
+function setPngResolution(png: Uint8Array, dpi: number): Uint8Array<ArrayBuffer> {
+    const ihdrEnd = 8 + 8 + 13 + 4; // signature, IHDR length/type, IHDR data, CRC
+    const chunk = new Uint8Array(4 + 4 + 9 + 4);
+    const view = new DataView(chunk.buffer);
+    const pixelsPerMeter = Math.round(dpi / 0.0254);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+    view.setUint32(8, pixelsPerMeter);
+    view.setUint32(12, pixelsPerMeter);
+    chunk[16] = 1; // unit: meter
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    const result = new Uint8Array(png.length + chunk.length);
+    result.set(png.subarray(0, ihdrEnd), 0);
+    result.set(chunk, ihdrEnd);
+    result.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+    return result;
+}
+
+// Rasterize the figure on a white background at the requested resolution
+export function svgToPngBlob(svgString: string, width: number, height: number, dpi: number): Promise<Blob> {
+    const scale = dpi / 72;
+    return new Promise((resolve, reject) => {
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+            reject(new Error("Canvas is not supported by this browser"));
+            return;
+        }
+
+        const url = URL.createObjectURL(new Blob([svgString], { type: "image/svg+xml" }));
+        const img = new Image();
+        img.onload = () => {
+            ctx.fillStyle = "white";
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(async blob => {
+                if (!blob) {
+                    reject(new Error("Unable to encode the PNG"));
+                    return;
+                }
+                const png = setPngResolution(new Uint8Array(await blob.arrayBuffer()), dpi);
+                resolve(new Blob([png], { type: "image/png" }));
+            }, "image/png");
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Unable to render the SVG"));
+        };
+        img.src = url;
+    });
+}
+
+// Vector PDF with the page sized to the figure (1 SVG unit = 1 pt)
+export async function svgToPdfBlob(svg: SVGSVGElement, width: number, height: number): Promise<Blob> {
+    const pdf = new jsPDF({
+        orientation: width > height ? "landscape" : "portrait",
+        unit: "pt",
+        format: [width, height],
+    });
+    // svg2pdf reads styles from the document, so the figure has to be attached while it is converted
+    svg.style.setProperty("position", "absolute");
+    svg.style.setProperty("left", "-100000px");
+    document.body.appendChild(svg);
+    try {
+        await svg2pdf(svg, pdf, { x: 0, y: 0, width, height });
+    } finally {
+        svg.remove();
+    }
+    return pdf.output("blob");
+}
+
+// Name exported figures after the input files, e.g. "HIV_donors_acceptors"
+export function figureBaseName(gtfFileName: string | undefined, signalFileNames: string[]): string {
+    const stem = (fileName: string) => uncompressedName(fileName).replace(/\.[^.]*$/, "");
+    const parts = [gtfFileName ?? "", ...signalFileNames]
+        .filter(fileName => fileName !== "")
+        .map(stem);
+    const name = parts.join("_").replace(/[^A-Za-z0-9._-]+/g, "_");
+    return name !== "" ? name : "splicevar_plot";
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
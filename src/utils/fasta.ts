@@ -0,0 +1,56 @@
+import { LineParseError, parseLines } from './inputFiles';
+import { Nucleotide, NucleotideCounts } from './nucleotideCounts';
+
+// reference sequences by seqid, upper case
+export type ReferenceSequences = Map<string, string>;
+
+const complements: { [base: string]: string } = { A: "T", C: "G", G: "C", T: "A", N: "N" };
+
+export function complementBase(base: string): string {
+    return complements[base] ?? "N";
+}
+
+export function complementCounts(counts: NucleotideCounts): NucleotideCounts {
+    return { A: counts.T, C: counts.G, G: counts.C, T: counts.A, N: counts.N };
+}
+
+// Read a (possibly compressed) FASTA file. The seqid is the first word of each header line.
+export async function parseFasta(file: File, onProgress?: (fraction: number) => void): Promise<ReferenceSequences> {
+    const chunks: Map<string, string[]> = new Map();
+    let current: string[] | null = null;
+
+    await parseLines(file, line => {
+        if (line.startsWith(">")) {
+            const seqid = line.slice(1).trim().split(/\s+/)[0];
+            if (seqid === "") {
+                throw new LineParseError("header without a sequence name", 2);
+            }
+            current = [];
+            chunks.set(seqid, current);
+            return;
+        }
+        const sequence = line.trim();
+        if (sequence === "" || sequence.startsWith(";")) {
+            return;
+        }
+        if (current === null) {
+            throw new LineParseError("sequence before the first >header line");
+        }
+        const invalid = sequence.search(/[^A-Za-z*-]/);
+        if (invalid !== -1) {
+            throw new LineParseError(`unexpected character "${sequence[invalid]}"`, line.indexOf(sequence) + invalid + 1);
+        }
+        current.push(sequence.toUpperCase());
+    }, onProgress);
+
+    if (chunks.size === 0) {
+        throw new Error("No sequences found in the FASTA file");
+    }
+    return new Map(Array.from(chunks.entries()).map(([seqid, parts]) => [seqid, parts.join("")]));
+}
+
+// base at a 0-based position, "N" for anything that is not A/C/G/T
+export function baseAt(sequence: string, position: number): Nucleotide {
+    const base = sequence[position];
+    return base === "A" || base === "C" || base === "G" || base === "T" ? base : "N";
+}
@@ -0,0 +1,162 @@
+// Reading of uploaded text files: transparent gzip/bgzip decompression, line by line parsing with progress and
+// error reports that point at the offending line and column.
+
+export interface LineError {
+    line: number; // 1-based
+    column?: number; // 1-based, missing when the whole line is at fault
+    message: string;
+}
+
+// Thrown by line parsers for a single bad line
+export class LineParseError extends Error {
+    column?: number;
+
+    constructor(message: string, column?: number) {
+        super(message);
+        this.column = column;
+    }
+}
+
+// Thrown once a file has been read when some of its lines could not be parsed
+export class InputFileError extends Error {
+    fileName: string;
+    lineErrors: LineError[];
+
+    constructor(fileName: string, lineErrors: LineError[], truncated: boolean) {
+        const count = `${lineErrors.length}${truncated ? "+" : ""} invalid line${lineErrors.length === 1 ? "" : "s"}`;
+        super(`${fileName}: ${count}. ${formatLineError(lineErrors[0])}`);
+        this.fileName = fileName;
+        this.lineErrors = lineErrors;
+    }
+}
+
+export function formatLineError(error: LineError): string {
+    const location = error.column !== undefined ? `Line ${error.line}, column ${error.column}` : `Line ${error.line}`;
+    return `${location}: ${error.message}`;
+}
+
+// reading stops after this many bad lines - the file is most likely in the wrong format
+const MAX_LINE_ERRORS = 20;
+
+function isGzip(header: Uint8Array): boolean {
+    return header.length >= 2 && header[0] === 0x1f && header[1] === 0x8b;
+}
+
+// BGZF blocks are gzip members with a "BC" extra field holding the block size
+function isBgzf(header: Uint8Array): boolean {
+    return isGzip(header) && header.length >= 18 && (header[3] & 0x04) !== 0 && header[12] === 0x42 && header[13] === 0x43;
+}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+    return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+// Decompress a BGZF file block by block. DecompressionStream stops after the first gzip member, so every block is
+// inflated on its own.
+// byte chunks as produced by Blob.stream() and DecompressionStream
+type ByteChunk = Uint8Array<ArrayBuffer>;
+
+function bgzfStream(file: Blob, onRead: (bytes: number) => void): ReadableStream<ByteChunk> {
+    let offset = 0;
+    return new ReadableStream<ByteChunk>({
+        async pull(controller) {
+            if (offset >= file.size) {
+                controller.close();
+                return;
+            }
+            const header = await readBytes(file, offset, offset + 18);
+            if (!isBgzf(header)) {
+                throw new Error(`Invalid BGZF block at byte ${offset}`);
+            }
+            const blockSize = (header[16] | (header[17] << 8)) + 1;
+            const block = file.slice(offset, offset + blockSize);
+            offset += blockSize;
+            onRead(offset);
+            const inflated = await new Response(block.stream().pipeThrough(new DecompressionStream("gzip"))).arrayBuffer();
+            controller.enqueue(new Uint8Array(inflated));
+        },
+    });
+}
+
+// Byte stream of the file content, decompressed when the file starts with the gzip magic number
+async function openStream(file: Blob, onRead: (bytes: number) => void): Promise<ReadableStream<ByteChunk>> {
+    const header = await readBytes(file, 0, 18);
+    if (isBgzf(header)) {
+        return bgzfStream(file, onRead);
+    }
+    let read = 0;
+    const counted = file.stream().pipeThrough(new TransformStream<ByteChunk, ByteChunk>({
+        transform(chunk, controller) {
+            read += chunk.length;
+            onRead(read);
+            controller.enqueue(chunk);
+        },
+    }));
+    return isGzip(header) ? counted.pipeThrough(new DecompressionStream("gzip")) : counted;
+}
+
+// Call onLine for every line of the (possibly compressed) file without holding the whole text in memory.
+// Progress is the fraction of the file read so far, reported in steps of at least 1%.
+export async function readLines(file: Blob, onLine: (line: string, lineNumber: number) => void,
+    onProgress?: (fraction: number) => void): Promise<void> {
+    let reported = 0;
+    const stream = await openStream(file, bytes => {
+        const fraction = file.size > 0 ? bytes / file.size : 1;
+        if (onProgress && fraction - reported >= 0.01) {
+            reported = fraction;
+            onProgress(fraction);
+        }
+    });
+    const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+
+    let remainder = "";
+    let lineNumber = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        const lines = (remainder + value).split("\n");
+        remainder = lines.pop()!;
+        lines.forEach(line => onLine(line.replace(/\r$/, ""), ++lineNumber));
+    }
+    if (remainder !== "") {
+        onLine(remainder.replace(/\r$/, ""), ++lineNumber);
+    }
+    onProgress?.(1);
+}
+
+// readLines with error collection: lines whose parser throws a LineParseError are recorded and reading goes on,
+// until too many lines failed. Throws an InputFileError listing the bad lines at the end.
+export async function parseLines(file: File, onLine: (line: string, lineNumber: number) => void,
+    onProgress?: (fraction: number) => void): Promise<void> {
+    const lineErrors: LineError[] = [];
+    const tooManyErrors = new Error("too many errors");
+    try {
+        await readLines(file, (line, lineNumber) => {
+            try {
+                onLine(line, lineNumber);
+            } catch (error) {
+                if (!(error instanceof LineParseError)) {
+                    throw error;
+                }
+                lineErrors.push({ line: lineNumber, column: error.column, message: error.message });
+                if (lineErrors.length >= MAX_LINE_ERRORS) {
+                    throw tooManyErrors;
+                }
+            }
+        }, onProgress);
+    } catch (error) {
+        if (error !== tooManyErrors) {
+            throw error;
+        }
+    }
+    if (lineErrors.length > 0) {
+        throw new InputFileError(file.name, lineErrors, lineErrors.length >= MAX_LINE_ERRORS);
+    }
+}
+
+// File name without the compression suffix, e.g. "donors.bed" for "donors.bed.gz"
+export function uncompressedName(fileName: string): string {
+    return fileName.replace(/\.(gz|bgz)$/i, "");
+}
@@ -0,0 +1,110 @@
+import { Transcriptome } from 'sparrowgenomelib';
+
+import { LineParseError, parseLines } from './inputFiles';
+import { isBedHeaderLine } from './bedLines';
+
+export type JunctionSource = 'annotation' | 'file';
+
+// An intron given by the exon boundaries it joins, in the coordinates of the GTF exons: donor is the last exonic
+// base before the intron and acceptor the first exonic base after it (on the plus strand).
+export interface Junction {
+    seqid: string;
+    donor: number;
+    acceptor: number;
+    strand: string;
+    reads: number | null; // read support from a junction file, null for annotated introns
+}
+
+export interface JunctionFile {
+    fileName: string;
+    junctions: Junction[];
+}
+
+// Introns between consecutive exons of every transcript. Introns shared by several transcripts are listed once.
+export function junctionsFromTranscriptome(transcriptome: Transcriptome, seqid: string): Junction[] {
+    const junctions: Map<string, Junction> = new Map();
+    for (const transcript of transcriptome) {
+        const exons = transcript.getExons().slice().sort((a, b) => a.getStart() - b.getStart());
+        for (let i = 1; i < exons.length; i++) {
+            const donor = exons[i - 1].getEnd();
+            const acceptor = exons[i].getStart();
+            const key = `${donor}-${acceptor}`;
+            if (!junctions.has(key)) {
+                junctions.set(key, { seqid, donor, acceptor, strand: transcript.getStrand(), reads: null });
+            }
+        }
+    }
+    return Array.from(junctions.values());
+}
+
+function parseInteger(value: string | undefined, column: number, name: string): number {
+    const number = Number(value);
+    if (value === undefined || value === "" || !Number.isInteger(number) || number < 0) {
+        throw new LineParseError(`${name} must be a non-negative integer, got "${value ?? ""}"`, column);
+    }
+    return number;
+}
+
+// STAR SJ.out.tab: seqid, first and last intronic base (1-based), strand (0 undefined, 1 +, 2 -), motif, annotated,
+// unique reads, multi-mapping reads, maximum overhang
+function parseStarJunction(fields: string[]): Junction {
+    const first = parseInteger(fields[1], 2, "first intron base");
+    const last = parseInteger(fields[2], 3, "last intron base");
+    if (last < first) {
+        throw new LineParseError(`last intron base ${last} is before the first ${first}`, 3);
+    }
+    const strands: { [code: string]: string } = { "0": ".", "1": "+", "2": "-" };
+    const strand = strands[fields[3]];
+    if (strand === undefined) {
+        throw new LineParseError(`strand must be 0, 1 or 2, got "${fields[3]}"`, 4);
+    }
+    return { seqid: fields[0], donor: first - 1, acceptor: last + 1, strand, reads: parseInteger(fields[6], 7, "unique reads") };
+}
+
+// BED12 as written by junction tools: every gap between two blocks is an intron, the score column the read support
+function parseBed12Junctions(fields: string[]): Junction[] {
+    const chromStart = parseInteger(fields[1], 2, "start");
+    const score = Number(fields[4]);
+    if (!Number.isFinite(score)) {
+        throw new LineParseError(`score must be a number, got "${fields[4]}"`, 5);
+    }
+    const blockCount = parseInteger(fields[9], 10, "block count");
+    const sizes = fields[10].split(",").filter(size => size !== "").map(Number);
+    const starts = fields[11].split(",").filter(start => start !== "").map(Number);
+    if (sizes.length !== blockCount || sizes.some(size => !Number.isInteger(size))) {
+        throw new LineParseError(`expected ${blockCount} block sizes, got "${fields[10]}"`, 11);
+    }
+    if (starts.length !== blockCount || starts.some(start => !Number.isInteger(start))) {
+        throw new LineParseError(`expected ${blockCount} block starts, got "${fields[11]}"`, 12);
+    }
+    const junctions: Junction[] = [];
+    for (let i = 1; i < blockCount; i++) {
+        // 0-based half-open blocks to 1-based exon boundaries
+        const donor = chromStart + starts[i - 1] + sizes[i - 1];
+        const acceptor = chromStart + starts[i] + 1;
+        junctions.push({ seqid: fields[0], donor, acceptor, strand: fields[5] || ".", reads: score });
+    }
+    return junctions;
+}
+
+// Read a STAR SJ.out.tab or BED12 junction file, telling them apart by the number of columns
+export async function parseJunctionFile(file: File, onProgress?: (fraction: number) => void): Promise<JunctionFile> {
+    const junctions: Junction[] = [];
+    await parseLines(file, line => {
+        if (isBedHeaderLine(line)) {
+            return;
+        }
+        const fields = line.split("\t");
+        if (fields.length === 9) {
+            junctions.push(parseStarJunction(fields));
+        } else if (fields.length >= 12) {
+            junctions.push(...parseBed12Junctions(fields));
+        } else {
+            throw new LineParseError(`expected 9 columns (STAR SJ.out.tab) or 12 columns (BED12), found ${fields.length}`);
+        }
+    }, onProgress);
+    if (junctions.length === 0) {
+        throw new Error("No junctions found in the file");
+    }
+    return { fileName: file.name, junctions };
+}
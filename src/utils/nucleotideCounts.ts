@@ -0,0 +1,186 @@
+import { BedData, BedFile, BedLine } from 'sparrowgenomelib';
+
+import { LineParseError, formatLineError, parseLines, uncompressedName } from './inputFiles';
+import { isBedHeaderLine, parseBedLine } from './bedLines';
+import { SignalFileFacts, createSignalFactCollector } from './signalFacts';
+
+export type SignalFormat = 'bed' | 'counts';
+
+export const NUCLEOTIDES = ["A", "C", "G", "T", "N"] as const;
+export type Nucleotide = typeof NUCLEOTIDES[number];
+
+export type NucleotideCounts = { [nt in Nucleotide]: number };
+
+export interface NucleotideCountLine {
+    seqid: string;
+    position: number; // 1-based position as written in the table
+    counts: NucleotideCounts;
+}
+
+// Base counts by seqid and 0-based position, kept from count tables for the sequence logo of the zoom cells
+export type NucleotideComposition = Map<string, Map<number, NucleotideCounts>>;
+
+// Signal file contents: the scores as BED plus the base counts when the file was a count table
+export interface SignalFile {
+    bedFile: BedFile;
+    composition: NucleotideComposition | null;
+    facts: SignalFileFacts; // for the input checks
+}
+
+function isHeaderLine(fields: string[]): boolean {
+    const lower = fields.map(field => field.toLowerCase());
+    return lower.includes("position") && ["a", "c", "g", "t"].every(nt => lower.includes(nt));
+}
+
+// Guess whether an uploaded signal file is a BED file or a headered per-nucleotide count table
+export function detectSignalFormat(text: string): SignalFormat {
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#") || line.startsWith("track") || line.startsWith("browser")) {
+            continue;
+        }
+        return isHeaderLine(line.split(/\t/)) ? "counts" : "bed";
+    }
+    return "bed";
+}
+
+// Line by line parser for a tab-separated table with a "seqid position A C G T N" header. Columns are located by
+// name so their order does not matter and the N column is optional. Returns null for the header and comment lines.
+export function createNucleotideCountParser(): { parseLine: (line: string) => NucleotideCountLine | null, hasHeader: () => boolean } {
+    let columns: { [name: string]: number } | null = null;
+
+    const parseLine = (rawLine: string): NucleotideCountLine | null => {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#")) {
+            return null;
+        }
+        const fields = line.split(/\t/);
+        if (columns === null) {
+            if (!isHeaderLine(fields)) {
+                throw new LineParseError("expected a header with seqid, position, A, C, G and T columns");
+            }
+            columns = {};
+            fields.forEach((field, idx) => { columns![field.toLowerCase()] = idx; });
+            return null;
+        }
+
+        const seqidColumn = columns["seqid"] ?? columns["chrom"] ?? 0;
+        const positionColumn = columns["position"];
+        const position = Number(fields[positionColumn]);
+        if (!Number.isInteger(position) || position < 1) {
+            throw new LineParseError(`invalid position "${fields[positionColumn] ?? ""}"`, positionColumn + 1);
+        }
+
+        const counts = { A: 0, C: 0, G: 0, T: 0, N: 0 };
+        for (const nt of NUCLEOTIDES) {
+            const idx = columns[nt.toLowerCase()];
+            if (idx === undefined) {
+                continue;
+            }
+            const value = Number(fields[idx]);
+            if (!Number.isFinite(value) || value < 0) {
+                throw new LineParseError(`invalid ${nt} count "${fields[idx] ?? ""}"`, idx + 1);
+            }
+            counts[nt] = value;
+        }
+
+        return { seqid: fields[seqidColumn], position, counts };
+    };
+
+    return { parseLine, hasHeader: () => columns !== null };
+}
+
+export function parseNucleotideCounts(text: string): NucleotideCountLine[] {
+    const parser = createNucleotideCountParser();
+    const result: NucleotideCountLine[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+        try {
+            const parsed = parser.parseLine(line);
+            if (parsed) {
+                result.push(parsed);
+            }
+        } catch (error) {
+            if (error instanceof LineParseError) {
+                throw new Error(formatLineError({ line: i + 1, column: error.column, message: error.message }));
+            }
+            throw error;
+        }
+    });
+    if (!parser.hasHeader()) {
+        throw new Error("The file is empty");
+    }
+    return result;
+}
+
+// Fraction of reads supporting the most common base at a position - a measure of how conserved the position is
+export function dominantBaseFraction(counts: NucleotideCounts): number {
+    const total = NUCLEOTIDES.reduce((sum, nt) => sum + counts[nt], 0);
+    if (total === 0) {
+        return 0;
+    }
+    return Math.max(counts.A, counts.C, counts.G, counts.T) / total;
+}
+
+// Convert a count table line into the single-base BED interval used by the plot, with the dominant base fraction as
+// its score and the sample name in the name column.
+function nucleotideCountToBedLine(line: NucleotideCountLine, sampleName: string): BedLine {
+    return {
+        seqid: line.seqid,
+        start: line.position - 1,
+        end: line.position,
+        name: sampleName,
+        score: dominantBaseFraction(line.counts),
+        strand: ".",
+    };
+}
+
+export function nucleotideCountsToBed(lines: NucleotideCountLine[], sampleName: string): BedData {
+    const bedData = new BedData();
+    lines.forEach(line => bedData.addLine(nucleotideCountToBedLine(line, sampleName)));
+    return bedData;
+}
+
+// Read a signal file in either supported format. The file may be gzip or bgzip compressed and is parsed while it is
+// read; bad lines are reported together in an InputFileError.
+export async function parseSignalFile(file: File, onProgress?: (fraction: number) => void): Promise<SignalFile> {
+    const bedData = new BedData();
+    const composition: NucleotideComposition = new Map();
+    const sampleName = uncompressedName(file.name).replace(/\.[^.]*$/, "");
+    let format: SignalFormat | null = null;
+    const countParser = createNucleotideCountParser();
+    const facts = createSignalFactCollector();
+
+    await parseLines(file, (line, lineNumber) => {
+        if (format === null) {
+            if (isBedHeaderLine(line)) {
+                return;
+            }
+            format = detectSignalFormat(line);
+        }
+        if (format === "counts") {
+            const counts = countParser.parseLine(line);
+            if (counts) {
+                const bedLine = nucleotideCountToBedLine(counts, sampleName);
+                bedData.addLine(bedLine);
+                facts.add(bedLine, lineNumber);
+                if (!composition.has(counts.seqid)) {
+                    composition.set(counts.seqid, new Map());
+                }
+                composition.get(counts.seqid)!.set(counts.position - 1, counts.counts);
+            }
+        } else if (!isBedHeaderLine(line)) {
+            const bedLine = parseBedLine(line);
+            bedData.addLine(bedLine);
+            facts.add(bedLine, lineNumber);
+        }
+    }, onProgress);
+
+    if (format === null) {
+        throw new Error("The file is empty");
+    }
+    return {
+        bedFile: { data: bedData, fileName: file.name, status: 1 },
+        composition: format === "counts" ? composition : null,
+        facts: facts.facts(),
+    };
+}
@@ -0,0 +1,36 @@
+export interface GenomicRegion {
+    seqid: string | null;
+    start: number;
+    end: number;
+}
+
+// Parse a region string such as "M33262.1:5000-6500", "5,000-6,500" or "M33262.1:5000..6500"
+export function parseRegion(text: string): GenomicRegion {
+    const match = text.trim().replace(/,/g, "").match(/^(?:(\S+):)?(\d+)\s*(?:-|\.\.)\s*(\d+)$/);
+    if (!match) {
+        throw new Error(`"${text}" is not a valid region. Expected seqid:start-end, for example M33262.1:5000-6500`);
+    }
+    const start = Number(match[2]);
+    const end = Number(match[3]);
+    if (start >= end) {
+        throw new Error(`Region start (${start}) must be smaller than region end (${end})`);
+    }
+    return { seqid: match[1] ?? null, start, end };
+}
+
+// Cut a region down to a sequence of the given length, 0 when the length is unknown. Throws when nothing of the
+// region is left.
+export function clampRegion(region: GenomicRegion, sequenceEnd: number): GenomicRegion {
+    if (sequenceEnd <= 0) {
+        return region;
+    }
+    if (region.start >= sequenceEnd) {
+        throw new Error(`Region start (${region.start}) is beyond the end of the sequence (${sequenceEnd})`);
+    }
+    return { ...region, start: Math.max(0, region.start), end: Math.min(region.end, sequenceEnd) };
+}
+
+export function formatRegion(region: GenomicRegion): string {
+    const coordinates = `${region.start}-${region.end}`;
+    return region.seqid ? `${region.seqid}:${coordinates}` : coordinates;
+}
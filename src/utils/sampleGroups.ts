@@ -0,0 +1,106 @@
+import * as d3 from 'd3';
+
+import { BedData } from 'sparrowgenomelib';
+
+export type SampleGroupMode = 'none' | 'regex' | 'sheet';
+export type SampleGroupDisplay = 'box' | 'points';
+
+export interface SampleGroups {
+    groups: string[]; // ordered list of group names
+    colors: { [group: string]: string };
+    assignments: Map<string, string>; // sample name -> group name
+}
+
+// Key of the group of samples that are not matched by the pattern or missing from the sample sheet. Text files do not
+// hold NUL characters, so no sheet or pattern produces it and a group that is really called "other" stays apart.
+export const UNGROUPED = "\u0000other";
+
+// group names as shown in legends and tables
+export function groupLabel(group: string): string {
+    return group === UNGROUPED ? "other" : group;
+}
+
+export function collectSampleNames(...bedDatas: BedData[]): string[] {
+    const names = new Set<string>();
+    bedDatas.forEach(bedData => {
+        bedData.getData().forEach(line => names.add(line.name));
+    });
+    return Array.from(names).sort();
+}
+
+function buildSampleGroups(assignments: Map<string, string>, palette: readonly string[]): SampleGroups {
+    const groups = Array.from(new Set(assignments.values())).sort((a, b) => {
+        // keep the catch-all group at the end of the legend
+        if (a === UNGROUPED) return 1;
+        if (b === UNGROUPED) return -1;
+        return a.localeCompare(b, undefined, { numeric: true });
+    });
+
+    const colors: { [group: string]: string } = {};
+    groups.forEach((group, i) => {
+        colors[group] = group === UNGROUPED ? "#999999" : palette[i % palette.length];
+    });
+
+    return { groups, colors, assignments };
+}
+
+// Group samples by a regular expression applied to the BED name column.
+// The first capture group is used as the group name, or the whole match if the pattern has no groups.
+export function groupSamplesByPattern(names: string[], pattern: string,
+    palette: readonly string[] = d3.schemeTableau10): SampleGroups {
+    const regex = new RegExp(pattern); // throws on invalid patterns - caller reports the error
+    const assignments = new Map<string, string>();
+    names.forEach(name => {
+        const match = name.match(regex);
+        if (!match) {
+            assignments.set(name, UNGROUPED);
+            return;
+        }
+        assignments.set(name, match[1] ?? match[0]);
+    });
+    return buildSampleGroups(assignments, palette);
+}
+
+// Parse a two-column sample sheet (sample, group) separated by tabs or commas.
+// Lines starting with '#' and a "sample" header line are skipped.
+export function parseSampleSheet(text: string): Map<string, string> {
+    const sheet = new Map<string, string>();
+    text.split(/\r?\n/).forEach((rawLine, i) => {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#")) {
+            return;
+        }
+        const fields = line.split(/\t|,/).map(field => field.trim());
+        if (fields.length < 2) {
+            throw new Error(`Line ${i + 1}: expected at least two columns (sample, group)`);
+        }
+        if (i === 0 && fields[0].toLowerCase() === "sample") {
+            return;
+        }
+        sheet.set(fields[0], fields[1]);
+    });
+    return sheet;
+}
+
+export function groupSamplesBySheet(names: string[], sheet: Map<string, string>,
+    palette: readonly string[] = d3.schemeTableau10): SampleGroups {
+    const assignments = new Map<string, string>();
+    names.forEach(name => {
+        assignments.set(name, sheet.get(name) ?? UNGROUPED);
+    });
+    return buildSampleGroups(assignments, palette);
+}
+
+// Group samples according to the grouping settings. Returns null when grouping is off or no sample sheet is loaded
+// yet, and throws on an invalid pattern.
+export function groupSamples(names: string[], mode: SampleGroupMode, pattern: string,
+    sheet: Map<string, string>, palette: readonly string[] = d3.schemeTableau10): SampleGroups | null {
+    switch (mode) {
+        case "none":
+            return null;
+        case "sheet":
+            return sheet.size === 0 ? null : groupSamplesBySheet(names, sheet, palette);
+        default:
+            return groupSamplesByPattern(names, pattern, palette);
+    }
+}
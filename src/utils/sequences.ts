@@ -0,0 +1,102 @@
+import { BedData } from 'sparrowgenomelib';
+
+import { LineParseError, parseLines } from './inputFiles';
+
+export interface SequenceRegion {
+    seqid: string;
+    start: number;
+    end: number;
+}
+
+// List the sequences of a GTF file from its ##sequence-region headers. Files without headers fall back to the
+// seqids of the feature lines, spanning the smallest start and largest end seen for each.
+export function parseSequenceRegions(gtfText: string): SequenceRegion[] {
+    const headerRegions: SequenceRegion[] = [];
+    const featureRegions: Map<string, SequenceRegion> = new Map();
+
+    gtfText.split(/\r?\n/).forEach(line => {
+        if (line.startsWith("##sequence-region")) {
+            const [, seqid, start, end] = line.trim().split(/\s+/);
+            if (seqid) {
+                headerRegions.push({ seqid, start: Number(start) || 1, end: Number(end) || 0 });
+            }
+            return;
+        }
+        if (line.startsWith("#") || line.trim() === "") {
+            return;
+        }
+        const fields = line.split("\t");
+        if (fields.length < 9) {
+            return;
+        }
+        const start = Number(fields[3]);
+        const end = Number(fields[4]);
+        const region = featureRegions.get(fields[0]);
+        if (!region) {
+            featureRegions.set(fields[0], { seqid: fields[0], start, end });
+        } else {
+            region.start = Math.min(region.start, start);
+            region.end = Math.max(region.end, end);
+        }
+    });
+
+    if (headerRegions.length > 0) {
+        // features on sequences without a header still need to be selectable
+        const known = new Set(headerRegions.map(region => region.seqid));
+        return [...headerRegions, ...Array.from(featureRegions.values()).filter(region => !known.has(region.seqid))];
+    }
+    return Array.from(featureRegions.values());
+}
+
+// Check the columns of a GTF feature line that the plot relies on
+function checkGtfLine(line: string): void {
+    if (line.startsWith("#") || line.trim() === "") {
+        return;
+    }
+    const fields = line.split("\t");
+    if (fields.length < 9) {
+        throw new LineParseError(`expected 9 tab-separated columns, found ${fields.length}`);
+    }
+    const start = Number(fields[3]);
+    if (!Number.isInteger(start) || start < 1) {
+        throw new LineParseError(`start must be a positive integer, got "${fields[3]}"`, 4);
+    }
+    const end = Number(fields[4]);
+    if (!Number.isInteger(end) || end < start) {
+        throw new LineParseError(`end must be an integer not smaller than start, got "${fields[4]}"`, 5);
+    }
+    if (!["+", "-", "."].includes(fields[6])) {
+        throw new LineParseError(`strand must be +, - or ., got "${fields[6]}"`, 7);
+    }
+}
+
+// Read a (possibly compressed) GTF file, reporting malformed feature lines with their line and column
+export async function readGtfFile(file: File, onProgress?: (fraction: number) => void): Promise<string> {
+    const lines: string[] = [];
+    await parseLines(file, line => {
+        checkGtfLine(line);
+        lines.push(line);
+    }, onProgress);
+    return lines.join("\n");
+}
+
+// Keep the headers and feature lines of a single sequence so it can be loaded as its own Transcriptome
+export function filterGtfBySeqid(gtfText: string, seqid: string): string {
+    return gtfText.split(/\r?\n/).filter(line => {
+        if (line.startsWith("##sequence-region")) {
+            return line.trim().split(/\s+/)[1] === seqid;
+        }
+        if (line.startsWith("#") || line.trim() === "") {
+            return true;
+        }
+        return line.split("\t")[0] === seqid;
+    }).join("\n");
+}
+
+export function filterBedBySeqid(bedData: BedData, seqid: string): BedData {
+    const filtered = new BedData();
+    bedData.getData()
+        .filter(line => line.seqid === seqid)
+        .forEach(line => filtered.addLine(line));
+    return filtered;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { BedData } from 'sparrowgenomelib';
+
+import {
+    createSession,
+    defaultSessionSettings,
+    parseSession,
+    restoreJunctions,
+    restoreReference,
+    restoreSignalTracks,
+    settingsFromSearchParams,
+    settingsToSearchParams,
+} from './session';
+import { SignalTrack, createSignalTrack } from './signalTracks';
+
+function loadedTrack(): SignalTrack {
+    const data = new BedData();
+    data.addLine({ seqid: "chr1", start: 20, end: 21, name: "A1", score: 0.25, strand: "+" });
+    data.addLine({ seqid: "chr1", start: 10, end: 11, name: "B1", score: 0.75, strand: "-" });
+    data.sort();
+    return {
+        ...createSignalTrack("donors", "Donors", "donors"),
+        bedFile: { data, fileName: "donors.bed", status: 1 },
+        customPositions: [15],
+        excludedPositions: [20],
+        yScale: "log",
+        yMax: 0.5,
+    };
+}
+
+describe("session", () => {
+    it("restores the inputs and settings it was saved with", () => {
+        const track = loadedTrack();
+        const settings = { ...defaultSessionSettings, selectedSeqid: "chr1", viewRange: [5, 50] as [number, number] };
+        const session = createSession(
+            { fileName: "genes.gtf", text: "chr1\ttest\texon\t1\t100\t.\t+\t.\ttranscript_id \"t1\";\n" },
+            { fileName: "genome.fa", sequences: new Map([["chr1", "ACGT"]]) },
+            null,
+            [track, createSignalTrack("acceptors", "Acceptors", "acceptors")],
+            new Map([["A1", "A"], ["B1", "B"]]),
+            new Map(),
+            new Map(),
+            settings,
+        );
+        const restored = parseSession(JSON.stringify(session));
+
+        expect(restored.gtf).toEqual(session.gtf);
+        expect(restored.settings).toEqual(settings);
+        expect(restored.sampleSheet).toEqual([["A1", "A"], ["B1", "B"]]);
+        expect(restoreReference(restored)?.sequences.get("chr1")).toBe("ACGT");
+        expect(restoreJunctions(restored)).toBeNull();
+
+        const [donors, acceptors] = restoreSignalTracks(restored);
+        expect(donors.bedFile.data.getData()).toEqual(track.bedFile.data.getData());
+        expect(donors.bedFile.status).toBe(1);
+        expect(donors.bedFile.fileName).toBe("donors.bed");
+        expect(donors.customPositions).toEqual([15]);
+        expect(donors.excludedPositions).toEqual([20]);
+        expect(donors.yScale).toBe("log");
+        expect(donors.yMax).toBe(0.5);
+        expect(acceptors.bedFile.status).toBe(0);
+    });
+
+    it("shares the saved data of unchanged inputs between sessions", () => {
+        const track = loadedTrack();
+        const save = () => createSession(null, null, null, [track], new Map(), new Map(), new Map(), defaultSessionSettings);
+        expect(save().signalTracks[0].lines).toBe(save().signalTracks[0].lines);
+    });
+
+    it("rejects files that are not sessions", () => {
+        expect(() => parseSession("{")).toThrow("not valid JSON");
+        expect(() => parseSession("{}")).toThrow("not a session file");
+    });
+
+    it("mirrors the view in the URL", () => {
+        const settings = { ...defaultSessionSettings, zoomWidth: 8, selectedSeqid: "chr1", viewRange: [100, 200] as [number, number] };
+        expect(settingsFromSearchParams(settingsToSearchParams(settings))).toEqual({
+            zoomWidth: 8,
+            selectedSeqid: "chr1",
+            viewRange: [100, 200],
+        });
+    });
+});
@@ -0,0 +1,266 @@
+import { BedData, BedLine } from 'sparrowgenomelib';
+
+import { SampleGroupMode, SampleGroupDisplay } from './sampleGroups';
+import { SignalTrack, SignalAnchor, SignalPlotType } from './signalTracks';
+import { NucleotideCounts } from './nucleotideCounts';
+import { ReferenceSequences } from './fasta';
+import { JunctionFile, JunctionSource } from './junctions';
+import { SiteNames } from './siteLabels';
+import { PaletteName, SiteLineStyle } from './themes';
+import { YDomainMode, YScaleType } from './yScales';
+import { SampleTimepoint, TimepointMode } from './timepoints';
+import { CompareDisplay } from './comparison';
+import { formatRegion, parseRegion } from './region';
+import { TrackConfig, defaultTrackLayout, withBuiltinTracks } from '../components/SplicePlot/trackLayout';
+
+// Everything needed to redraw the same figure apart from the input data
+export interface SessionSettings {
+    zoomWidth: number;
+    zoomWindowWidth: number;
+    fontSize: number;
+    width: number;
+    height: number;
+    selectedSeqid: string;
+    viewRange: [number, number] | null;
+    transcriptOrientation: boolean;
+    sampleGroupMode: SampleGroupMode;
+    sampleGroupPattern: string;
+    groupDisplay: SampleGroupDisplay;
+    timepointMode: TimepointMode;
+    timepointPattern: string;
+    junctionSource: JunctionSource;
+    palette: PaletteName;
+    darkMode: boolean;
+    siteLineStyle: SiteLineStyle;
+    tracks: TrackConfig[];
+}
+
+export const defaultSessionSettings: SessionSettings = {
+    zoomWidth: 5,
+    zoomWindowWidth: 75,
+    fontSize: 10,
+    width: 1100,
+    height: 700,
+    selectedSeqid: "",
+    viewRange: null,
+    transcriptOrientation: false,
+    sampleGroupMode: "none",
+    sampleGroupPattern: "^([A-Z]+)",
+    groupDisplay: "box",
+    timepointMode: "none",
+    timepointPattern: "(?<subject>A\\d+)p(?<time>\\d+)",
+    junctionSource: "annotation",
+    palette: "default",
+    darkMode: false,
+    siteLineStyle: "dashed",
+    tracks: defaultTrackLayout,
+};
+
+interface SessionSignalTrack {
+    id: string;
+    name: string;
+    color: string;
+    plotType: SignalPlotType;
+    anchor: SignalAnchor;
+    customPositions: number[];
+    excludedPositions?: number[]; // missing from older sessions
+    discoverThreshold?: number | null;
+    yScale?: YScaleType; // missing from older sessions
+    yDomain?: YDomainMode;
+    yMin?: number | null;
+    yMax?: number | null;
+    compareWith?: string | null;
+    compareDisplay?: CompareDisplay;
+    fileName: string;
+    lines: BedLine[];
+    composition?: [string, [number, NucleotideCounts][]][]; // base counts of count table inputs
+}
+
+// Project file contents: the settings plus all input data embedded as plain JSON
+export interface Session {
+    format: typeof SESSION_FORMAT;
+    version: number;
+    gtf: { fileName: string, text: string } | null;
+    reference?: { fileName: string, sequences: [string, string][] } | null; // FASTA, missing from older sessions
+    junctions?: JunctionFile | null; // junction file, missing from older sessions
+    signalTracks: SessionSignalTrack[];
+    sampleSheet: [string, string][];
+    timepointSheet?: [string, SampleTimepoint][]; // subject and time per sample, missing from older sessions
+    siteNames?: [string, string][]; // user given site names, missing from older sessions
+    settings: SessionSettings;
+}
+
+const SESSION_FORMAT = "splicevar-session";
+const SESSION_VERSION = 1;
+
+// Input data converted for the session by source object. Loaded inputs are never changed in place, so sessions
+// built from the same inputs share their data and the session store can tell which files are new.
+const serializedData: WeakMap<object, unknown> = new WeakMap();
+
+function serialized<S extends object, T>(source: S, serialize: (source: S) => T): T {
+    if (!serializedData.has(source)) {
+        serializedData.set(source, serialize(source));
+    }
+    return serializedData.get(source) as T;
+}
+
+export function createSession(gtf: { fileName: string, text: string } | null,
+    reference: { fileName: string, sequences: ReferenceSequences } | null,
+    junctions: JunctionFile | null,
+    signalTracks: SignalTrack[],
+    sampleSheet: Map<string, string>,
+    timepointSheet: Map<string, SampleTimepoint>,
+    siteNames: SiteNames,
+    settings: SessionSettings): Session {
+    return {
+        format: SESSION_FORMAT,
+        version: SESSION_VERSION,
+        gtf: gtf ? serialized(gtf, ({ fileName, text }) => ({ fileName, text })) : null,
+        reference: reference
+            ? serialized(reference, ({ fileName, sequences }) => ({ fileName, sequences: Array.from(sequences.entries()) }))
+            : null,
+        junctions,
+        signalTracks: signalTracks.map(track => ({
+            id: track.id,
+            name: track.name,
+            color: track.color,
+            plotType: track.plotType,
+            anchor: track.anchor,
+            customPositions: track.customPositions,
+            excludedPositions: track.excludedPositions,
+            discoverThreshold: track.discoverThreshold,
+            yScale: track.yScale,
+            yDomain: track.yDomain,
+            yMin: track.yMin,
+            yMax: track.yMax,
+            compareWith: track.compareWith,
+            compareDisplay: track.compareDisplay,
+            fileName: track.bedFile.fileName,
+            lines: track.bedFile.status === 1 ? serialized(track.bedFile.data, data => data.getData()) : [],
+            composition: track.composition
+                ? serialized(track.composition, composition => Array.from(composition.entries())
+                    .map(([seqid, counts]): [string, [number, NucleotideCounts][]] => [seqid, Array.from(counts.entries())]))
+                : undefined,
+        })),
+        sampleSheet: Array.from(sampleSheet.entries()),
+        timepointSheet: Array.from(timepointSheet.entries()),
+        siteNames: Array.from(siteNames.entries()),
+        settings,
+    };
+}
+
+export function restoreSignalTracks(session: Session): SignalTrack[] {
+    return session.signalTracks.map(track => {
+        const data = new BedData();
+        track.lines.forEach(line => data.addLine(line));
+        data.sort();
+        return {
+            id: track.id,
+            name: track.name,
+            color: track.color,
+            plotType: track.plotType,
+            anchor: track.anchor,
+            customPositions: track.customPositions,
+            excludedPositions: track.excludedPositions ?? [],
+            discoverThreshold: track.discoverThreshold ?? null,
+            discoveredPositions: [],
+            yScale: track.yScale ?? "linear",
+            yDomain: track.yDomain ?? "shared",
+            yMin: track.yMin ?? null,
+            yMax: track.yMax ?? null,
+            compareWith: track.compareWith ?? null,
+            compareDisplay: track.compareDisplay ?? "mirror",
+            inputFacts: null,
+            bedFile: { data, fileName: track.fileName, status: track.lines.length > 0 ? 1 : 0 },
+            composition: track.composition
+                ? new Map(track.composition.map(([seqid, counts]) => [seqid, new Map(counts)]))
+                : null,
+        };
+    });
+}
+
+export function restoreReference(session: Session): { fileName: string, sequences: ReferenceSequences } | null {
+    return session.reference ? { fileName: session.reference.fileName, sequences: new Map(session.reference.sequences) } : null;
+}
+
+export function restoreJunctions(session: Session): JunctionFile | null {
+    return session.junctions ?? null;
+}
+
+// Parse and check a project file
+export function parseSession(text: string): Session {
+    let session: unknown;
+    try {
+        session = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+    return checkSession(session);
+}
+
+// Check the structure of a stored or uploaded session. Settings missing from older sessions fall back to the defaults.
+export function checkSession(value: unknown): Session {
+    const session = value as Session;
+    if (session?.format !== SESSION_FORMAT) {
+        throw new Error("The file is not a session file");
+    }
+    if (session.version > SESSION_VERSION) {
+        throw new Error(`Session version ${session.version} is newer than this version of the app supports`);
+    }
+    if (!Array.isArray(session.signalTracks) || !Array.isArray(session.sampleSheet)) {
+        throw new Error("The session file is missing its signal tracks or sample sheet");
+    }
+    session.signalTracks.forEach((track, i) => {
+        if (typeof track.id !== "string" || !Array.isArray(track.lines)) {
+            throw new Error(`Signal track ${i + 1} is malformed`);
+        }
+    });
+    const settings = { ...defaultSessionSettings, ...session.settings };
+    return { ...session, settings: { ...settings, tracks: withBuiltinTracks(settings.tracks) } };
+}
+
+// View settings mirrored in the URL query string. Only values that differ from the defaults are written.
+export function settingsToSearchParams(settings: SessionSettings): URLSearchParams {
+    const params = new URLSearchParams();
+    (["zoomWidth", "zoomWindowWidth", "fontSize", "width", "height"] as const).forEach(key => {
+        if (settings[key] !== defaultSessionSettings[key]) {
+            params.set(key, String(settings[key]));
+        }
+    });
+    if (settings.selectedSeqid !== "" || settings.viewRange) {
+        params.set("region", settings.viewRange
+            ? formatRegion({ seqid: settings.selectedSeqid || null, start: settings.viewRange[0], end: settings.viewRange[1] })
+            : settings.selectedSeqid);
+    }
+    if (settings.transcriptOrientation) {
+        params.set("orientation", "transcript");
+    }
+    return params;
+}
+
+// Read view settings from the URL query string, ignoring values that do not parse
+export function settingsFromSearchParams(params: URLSearchParams): Partial<SessionSettings> {
+    const settings: Partial<SessionSettings> = {};
+    (["zoomWidth", "zoomWindowWidth", "fontSize", "width", "height"] as const).forEach(key => {
+        const value = Number(params.get(key));
+        if (params.has(key) && Number.isFinite(value) && value > 0) {
+            settings[key] = value;
+        }
+    });
+    const region = params.get("region");
+    if (region) {
+        try {
+            const parsed = parseRegion(region);
+            settings.viewRange = [parsed.start, parsed.end];
+            if (parsed.seqid) {
+                settings.selectedSeqid = parsed.seqid;
+            }
+        } catch {
+            settings.selectedSeqid = region; // sequence only, without a window
+        }
+    }
+    if (params.has("orientation")) {
+        settings.transcriptOrientation = params.get("orientation") === "transcript";
+    }
+    return settings;
+}
@@ -0,0 +1,136 @@
+import { Session } from './session';
+
+// The last session is kept in IndexedDB so that a page refresh does not lose the uploaded data. The input files are
+// stored as records of their own next to the small rest of the session, and a file is only written again when it
+// changed, so that a changed setting does not copy all data.
+const DB_NAME = "splicevar";
+const STORE_NAME = "sessions";
+const LAST_SESSION_KEY = "last";
+const PART_PREFIX = "last:";
+
+// records of the last save by key, compared by identity - createSession keeps unchanged file data identical
+let writtenParts: Map<string, unknown> = new Map();
+// saves are queued so that writtenParts always matches the database
+let pendingSave: Promise<void> = Promise.resolve();
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => Promise<T>): Promise<T> {
+    const db = await openDatabase();
+    try {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const done = new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+        const result = await action(transaction.objectStore(STORE_NAME));
+        await done;
+        return result;
+    } finally {
+        db.close();
+    }
+}
+
+function requestResult<T>(request: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Split the input data off the session: the GTF, reference and junctions and the lines and base counts of each
+// signal track
+function splitSession(session: Session): { rest: Session, parts: Map<string, unknown> } {
+    const parts: Map<string, unknown> = new Map<string, unknown>([
+        ["gtf", session.gtf],
+        ["reference", session.reference ?? null],
+        ["junctions", session.junctions ?? null],
+    ]);
+    session.signalTracks.forEach(track => {
+        parts.set(`lines:${track.id}`, track.lines);
+        parts.set(`composition:${track.id}`, track.composition);
+    });
+    const rest: Session = {
+        ...session,
+        gtf: null,
+        reference: null,
+        junctions: null,
+        signalTracks: session.signalTracks.map(track => ({ ...track, lines: [], composition: undefined })),
+    };
+    return { rest, parts };
+}
+
+async function writeSession(session: Session): Promise<void> {
+    const { rest, parts } = splitSession(session);
+    const written: Map<string, unknown> = new Map();
+    await withStore("readwrite", async store => {
+        parts.forEach((value, key) => {
+            if (writtenParts.get(key) !== value) {
+                store.put(value, PART_PREFIX + key);
+            }
+            written.set(key, value);
+        });
+        writtenParts.forEach((_, key) => {
+            if (!parts.has(key)) {
+                store.delete(PART_PREFIX + key);
+            }
+        });
+        store.put(rest, LAST_SESSION_KEY);
+    });
+    writtenParts = written;
+}
+
+export function saveLastSession(session: Session): Promise<void> {
+    const save = pendingSave.then(() => writeSession(session));
+    // a failed save is written in full the next time
+    pendingSave = save.catch(() => {
+        writtenParts = new Map();
+    });
+    return save;
+}
+
+export async function loadLastSession(): Promise<Session | null> {
+    return withStore("readonly", async store => {
+        // sessions stored before the data was split off still hold it themselves, so missing parts fall back to it
+        const rest = await requestResult<Session | undefined>(store.get(LAST_SESSION_KEY));
+        if (!rest) {
+            return null;
+        }
+        const part = <T>(key: string): Promise<T> => requestResult<T>(store.get(PART_PREFIX + key));
+        const [gtf, reference, junctions] = await Promise.all([
+            part<Session["gtf"] | undefined>("gtf"),
+            part<Session["reference"]>("reference"),
+            part<Session["junctions"]>("junctions"),
+        ]);
+        const signalTracks = await Promise.all(rest.signalTracks.map(async track => ({
+            ...track,
+            lines: await part<Session["signalTracks"][number]["lines"] | undefined>(`lines:${track.id}`) ?? track.lines,
+            composition: await part<Session["signalTracks"][number]["composition"]>(`composition:${track.id}`) ?? track.composition,
+        })));
+        return {
+            ...rest,
+            gtf: gtf !== undefined ? gtf : rest.gtf,
+            reference: reference !== undefined ? reference : rest.reference,
+            junctions: junctions !== undefined ? junctions : rest.junctions,
+            signalTracks,
+        };
+    });
+}
+
+export async function clearLastSession(): Promise<void> {
+    await pendingSave;
+    await withStore("readwrite", async store => {
+        store.clear();
+    });
+    writtenParts = new Map();
+}
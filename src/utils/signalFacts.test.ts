@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { MAX_REPORTED_LINES, createSignalFactCollector } from './signalFacts';
+
+function line(start: number, name: string, score: number, strand = "+", seqid = "chr1") {
+    return { seqid, start, end: start + 1, name, score, strand };
+}
+
+describe("createSignalFactCollector", () => {
+    it("counts the lines and the furthest end of each sequence", () => {
+        const collector = createSignalFactCollector();
+        collector.add(line(10, "s1", 0.5), 1);
+        collector.add(line(30, "s1", 0.5), 2);
+        collector.add(line(20, "s1", 0.5), 3);
+        collector.add(line(5, "s1", 0.5, "+", "chr2"), 4);
+        const sequences = collector.facts().sequences;
+        expect(sequences.get("chr1")).toEqual({ count: 3, firstLine: 1, maxEnd: 31, maxEndLine: 2 });
+        expect(sequences.get("chr2")).toEqual({ count: 1, firstLine: 4, maxEnd: 6, maxEndLine: 4 });
+    });
+
+    it("reports scores outside of 0 to 1", () => {
+        const collector = createSignalFactCollector();
+        collector.add(line(10, "s1", 0), 1);
+        collector.add(line(10, "s2", 1), 2);
+        collector.add(line(10, "s3", -0.1), 3);
+        collector.add(line(10, "s4", 12), 4);
+        expect(collector.facts().scoresOutOfRange).toEqual({ count: 2, lines: [3, 4] });
+    });
+
+    it("reports the same sample at the same position and strand more than once", () => {
+        const collector = createSignalFactCollector();
+        collector.add(line(10, "s1", 0.5), 1);
+        collector.add(line(10, "s2", 0.5), 2);
+        collector.add(line(10, "s1", 0.5, "-"), 3);
+        collector.add(line(10, "s1", 0.2), 4);
+        collector.add(line(10, "s1", 0.5, "+", "chr2"), 5);
+        collector.add(line(11, "s1", 0.5), 6);
+        collector.add(line(11, "s1", 0.5), 7);
+        expect(collector.facts().duplicates).toEqual({ count: 2, lines: [4, 7] });
+    });
+
+    it("counts every affected line but lists only the first ones", () => {
+        const collector = createSignalFactCollector();
+        for (let i = 0; i < MAX_REPORTED_LINES + 3; i++) {
+            collector.add(line(10, "s1", 2), i + 1);
+        }
+        const facts = collector.facts();
+        expect(facts.scoresOutOfRange.count).toBe(MAX_REPORTED_LINES + 3);
+        expect(facts.scoresOutOfRange.lines).toHaveLength(MAX_REPORTED_LINES);
+        expect(facts.duplicates.count).toBe(MAX_REPORTED_LINES + 2);
+    });
+
+    it("leaves the line numbers out for data without a file", () => {
+        const collector = createSignalFactCollector();
+        collector.add(line(10, "s1", 2), null);
+        collector.add(line(10, "s1", 2), null);
+        expect(collector.facts().duplicates).toEqual({ count: 1, lines: [] });
+        expect(collector.facts().sequences.get("chr1")?.firstLine).toBeNull();
+    });
+});
@@ -0,0 +1,71 @@
+import { BedData, BedLine } from 'sparrowgenomelib';
+
+// affected lines listed per check, the rest is only counted
+export const MAX_REPORTED_LINES = 5;
+
+export interface LineTally {
+    count: number;
+    lines: number[]; // first affected line numbers, empty when the data was not read from a file
+}
+
+// What the input checks need to know about a signal file, gathered while it is read so that problems can be
+// pointed out by line number after the data has been sorted
+export interface SignalFileFacts {
+    sequences: Map<string, { count: number, firstLine: number | null, maxEnd: number, maxEndLine: number | null }>;
+    scoresOutOfRange: LineTally; // scores are usage fractions in [0, 1]
+    duplicates: LineTally; // the same sample at the same position and strand more than once
+}
+
+function countLine(tally: LineTally, lineNumber: number | null): void {
+    tally.count++;
+    if (lineNumber !== null && tally.lines.length < MAX_REPORTED_LINES) {
+        tally.lines.push(lineNumber);
+    }
+}
+
+export function createSignalFactCollector(): { add: (line: BedLine, lineNumber: number | null) => void, facts: () => SignalFileFacts } {
+    const facts: SignalFileFacts = {
+        sequences: new Map(),
+        scoresOutOfRange: { count: 0, lines: [] },
+        duplicates: { count: 0, lines: [] },
+    };
+    // duplicates are looked for among the lines at the same position only, so that the check does not hold a key
+    // per line of the file. Signal files are sorted by position, duplicates in unsorted files can be missed.
+    let position = "";
+    let seen: Set<string> = new Set();
+    return {
+        add: (line, lineNumber) => {
+            const sequence = facts.sequences.get(line.seqid);
+            if (!sequence) {
+                facts.sequences.set(line.seqid, { count: 1, firstLine: lineNumber, maxEnd: line.end, maxEndLine: lineNumber });
+            } else {
+                sequence.count++;
+                if (line.end > sequence.maxEnd) {
+                    sequence.maxEnd = line.end;
+                    sequence.maxEndLine = lineNumber;
+                }
+            }
+            if (line.score < 0 || line.score > 1) {
+                countLine(facts.scoresOutOfRange, lineNumber);
+            }
+            const linePosition = `${line.seqid}\t${line.start}`;
+            if (linePosition !== position) {
+                position = linePosition;
+                seen = new Set();
+            }
+            const key = `${line.end}\t${line.name}\t${line.strand}`;
+            if (seen.has(key)) {
+                countLine(facts.duplicates, lineNumber);
+            }
+            seen.add(key);
+        },
+        facts: () => facts,
+    };
+}
+
+// Facts of data that no longer has its file, e.g. from a restored session. Line numbers are unknown.
+export function signalDataFacts(data: BedData): SignalFileFacts {
+    const collector = createSignalFactCollector();
+    data.getData().forEach(line => collector.add(line, null));
+    return collector.facts();
+}
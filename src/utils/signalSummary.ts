@@ -0,0 +1,120 @@
+import * as d3 from 'd3';
+
+import { BedLine } from 'sparrowgenomelib';
+
+import { SignalTrackData } from './signalTracks';
+import { summarizeScores } from './siteStats';
+import type { SignalSummaryRequest, SignalSummaryResponse } from './signalSummary.worker';
+
+export interface SampleScore {
+    name: string;
+    score: number;
+    strand: string;
+}
+
+// Per-position view of a signal track, computed once per data set so that redrawing the plot does not have to
+// explode and regroup the BED lines again. Only holds plain data so it can be passed out of a Web Worker.
+export interface SignalSummary {
+    seqid: string;
+    scores: Map<number, SampleScore[]>; // every sample value at each covered position
+    means: Map<number, { score: number, strand: string }>; // in position order, strand "." when both strands are present
+    maxNonOutlierScore: number; // largest value within 1.5 IQR of Q3 at any position
+}
+
+// report progress every this many BED lines
+const PROGRESS_INTERVAL = 10000;
+
+export function summarizeSignal(lines: BedLine[], onProgress?: (fraction: number) => void): SignalSummary {
+    const scores: Map<number, SampleScore[]> = new Map();
+    lines.forEach((line, i) => {
+        // each base of the interval as its own value
+        for (let pos = line.start; pos < line.end; pos++) {
+            if (!scores.has(pos)) {
+                scores.set(pos, []);
+            }
+            scores.get(pos)!.push({ name: line.name, score: line.score, strand: line.strand });
+        }
+        if (onProgress && i % PROGRESS_INTERVAL === 0) {
+            onProgress(i / lines.length);
+        }
+    });
+
+    const means: SignalSummary['means'] = new Map();
+    let maxNonOutlierScore = 0;
+    Array.from(scores.keys()).sort((a, b) => a - b).forEach(pos => {
+        const values = scores.get(pos)!;
+        const strands = new Set(values.map(value => value.strand));
+        means.set(pos, {
+            score: d3.mean(values, value => value.score) ?? 0,
+            strand: strands.size === 1 ? values[0].strand : ".",
+        });
+
+        const sorted = values.map(value => value.score).sort((a, b) => a - b);
+        const q1 = d3.quantile(sorted, 0.25) || 0;
+        const q3 = d3.quantile(sorted, 0.75) || 0;
+        const upperBound = q3 + 1.5 * (q3 - q1);
+        maxNonOutlierScore = Math.max(maxNonOutlierScore, d3.max(sorted.filter(score => score <= upperBound)) ?? 0);
+    });
+    onProgress?.(1);
+
+    return { seqid: lines[0]?.seqid ?? "", scores, means, maxNonOutlierScore };
+}
+
+// Summaries of all tracks, keyed by track id. Progress covers all tracks together.
+export function summarizeSignalTracks(tracks: { id: string, lines: BedLine[] }[],
+    onProgress?: (fraction: number) => void): Map<string, SignalSummary> {
+    const summaries: Map<string, SignalSummary> = new Map();
+    tracks.forEach((track, i) => {
+        summaries.set(track.id, summarizeSignal(track.lines, fraction => onProgress?.((i + fraction) / tracks.length)));
+    });
+    return summaries;
+}
+
+export function signalTrackLines(tracks: SignalTrackData[]): { id: string, lines: BedLine[] }[] {
+    return tracks.map(track => ({ id: track.id, lines: track.data.getData() }));
+}
+
+// maxNonOutlierScore of the positions start to end only, for zoom cells scaled on their own. Mean scores count
+// too so that mean bars and lines are never cut.
+export function windowMaxScore(summary: SignalSummary, start: number, end: number): number {
+    let max = 0;
+    for (let pos = start; pos <= end; pos++) {
+        const values = summary.scores.get(pos);
+        if (values) {
+            const upperWhisker = summarizeScores(values.map(value => value.score))?.upperWhisker ?? 0;
+            max = Math.max(max, upperWhisker, summary.means.get(pos)?.score ?? 0);
+        }
+    }
+    return max;
+}
+
+export const emptySignalSummary: SignalSummary = { seqid: "", scores: new Map(), means: new Map(), maxNonOutlierScore: 0 };
+
+// Run summarizeSignalTracks in a Web Worker so that large cohorts do not block the page.
+// Returns the pending result and a function that stops the worker, e.g. when the inputs change again.
+export function summarizeSignalTracksInWorker(tracks: SignalTrackData[], onProgress: (fraction: number) => void):
+    { result: Promise<Map<string, SignalSummary>>, cancel: () => void } {
+    const worker = new Worker(new URL('./signalSummary.worker.ts', import.meta.url), { type: 'module' });
+    const result = new Promise<Map<string, SignalSummary>>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<SignalSummaryResponse>) => {
+            const message = event.data;
+            if (message.type === "progress") {
+                onProgress(message.fraction);
+                return;
+            }
+            worker.terminate();
+            if (message.type === "done") {
+                resolve(message.summaries);
+            } else {
+                reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(event.message));
+        };
+    });
+    const request: SignalSummaryRequest = { tracks: signalTrackLines(tracks) };
+    worker.postMessage(request);
+    return { result, cancel: () => worker.terminate() };
+}
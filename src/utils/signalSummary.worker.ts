@@ -0,0 +1,23 @@
+import { BedLine } from 'sparrowgenomelib';
+
+import { SignalSummary, summarizeSignalTracks } from './signalSummary';
+
+export interface SignalSummaryRequest {
+    tracks: { id: string, lines: BedLine[] }[];
+}
+
+export type SignalSummaryResponse =
+    | { type: 'progress', fraction: number }
+    | { type: 'done', summaries: Map<string, SignalSummary> }
+    | { type: 'error', message: string };
+
+const post = (message: SignalSummaryResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SignalSummaryRequest>) => {
+    try {
+        const summaries = summarizeSignalTracks(event.data.tracks, fraction => post({ type: 'progress', fraction }));
+        post({ type: 'done', summaries });
+    } catch (error) {
+        post({ type: 'error', message: (error as Error).message });
+    }
+};
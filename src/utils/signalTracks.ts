@@ -0,0 +1,176 @@
+import * as d3 from 'd3';
+
+import { BedData, BedFile, Transcriptome } from 'sparrowgenomelib';
+
+import { SiteType } from './siteStats';
+import { Strand } from './transcriptomeUtils';
+import { NucleotideComposition } from './nucleotideCounts';
+import { YDomainMode, YScaleType } from './yScales';
+import { CompareDisplay } from './comparison';
+import { SignalFileFacts } from './signalFacts';
+import { filterBedBySeqid } from './sequences';
+
+export type SignalPlotType = 'bar' | 'box' | 'line';
+export type SignalAnchor = SiteType | 'custom'; // positions that get a zoom cell
+
+export interface SignalTrack {
+    id: string; // stable key shared with the track layout
+    name: string;
+    bedFile: BedFile;
+    color: string;
+    plotType: SignalPlotType;
+    anchor: SignalAnchor;
+    customPositions: number[]; // zoom cell positions when anchored to custom positions, added to the annotated ones otherwise
+    excludedPositions: number[]; // annotated or discovered sites that get no zoom cell
+    discoverThreshold: number | null; // zoom in on unannotated positions whose mean score reaches this, null when off
+    discoveredPositions: number[]; // found with discoverThreshold once the signal is summarized, not saved
+    composition: NucleotideComposition | null; // base counts of count table inputs, drawn as a sequence logo
+    yScale: YScaleType; // y scale of the zoom cells
+    yDomain: YDomainMode;
+    yMin: number | null; // fixed bounds of the zoom cell y axes, automatic when null
+    yMax: number | null;
+    compareWith: string | null; // id of the track holding condition B, drawn in the zoom cells of this one
+    compareDisplay: CompareDisplay;
+    inputFacts: SignalFileFacts | null; // gathered when the file was read, not saved
+}
+
+const defaultColors: { [anchor in SignalAnchor]: string } = {
+    donors: "#F78154",
+    acceptors: "#5FAD56",
+    custom: "#4D9DE0",
+};
+
+export function createSignalTrack(id: string, name: string, anchor: SignalAnchor, color?: string): SignalTrack {
+    return {
+        id,
+        name,
+        bedFile: { data: new BedData(), fileName: "", status: 0 },
+        color: color ?? defaultColors[anchor],
+        plotType: "box",
+        anchor,
+        customPositions: [],
+        excludedPositions: [],
+        discoverThreshold: null,
+        discoveredPositions: [],
+        composition: null,
+        yScale: "linear",
+        yDomain: "shared",
+        yMin: null,
+        yMax: null,
+        compareWith: null,
+        compareDisplay: "mirror",
+        inputFacts: null,
+    };
+}
+
+export const defaultSignalTracks: SignalTrack[] = [
+    createSignalTrack("donors", "Donors", "donors"),
+    createSignalTrack("acceptors", "Acceptors", "acceptors"),
+];
+
+// BED data of one signal track on the plotted sequence
+export interface SignalTrackData {
+    id: string;
+    data: BedData;
+}
+
+// Filter the BED data of the tracks to one sequence, once per loaded data set. The same list is returned for as long
+// as no track is added, removed or given new data, so that display changes of a track (color, y scale...) keep the
+// summaries and sample lists computed from it.
+export function createSequenceDataCache(): (tracks: SignalTrack[], seqid: string) => SignalTrackData[] {
+    let filtered: WeakMap<BedData, BedData> = new WeakMap();
+    let filteredSeqid = "";
+    let previous: SignalTrackData[] = [];
+    return (tracks, seqid) => {
+        if (seqid !== filteredSeqid) {
+            filtered = new WeakMap();
+            filteredSeqid = seqid;
+        }
+        const next = tracks.map(track => {
+            let data = filtered.get(track.bedFile.data);
+            if (!data) {
+                data = seqid === "" ? track.bedFile.data : filterBedBySeqid(track.bedFile.data, seqid);
+                filtered.set(track.bedFile.data, data);
+            }
+            return { id: track.id, data };
+        });
+        const unchanged = next.length === previous.length
+            && next.every((track, i) => track.id === previous[i].id && track.data === previous[i].data);
+        if (!unchanged) {
+            previous = next;
+        }
+        return previous;
+    };
+}
+
+// first unused "trackN" id
+export function nextSignalTrackId(tracks: SignalTrack[]): string {
+    const ids = new Set(tracks.map(track => track.id));
+    let n = tracks.length + 1;
+    while (ids.has(`track${n}`)) {
+        n++;
+    }
+    return `track${n}`;
+}
+
+// pick a palette color that is not used by another track yet
+export function nextSignalTrackColor(tracks: SignalTrack[], palette: readonly string[] = d3.schemeTableau10): string {
+    const used = new Set(tracks.map(track => track.color.toLowerCase()));
+    return palette.find(color => !used.has(color.toLowerCase())) ?? palette[tracks.length % palette.length];
+}
+
+// Recolor the tracks in order with the colors of a palette
+export function applyPalette(tracks: SignalTrack[], palette: readonly string[]): SignalTrack[] {
+    return tracks.map((track, i) => ({ ...track, color: palette[i % palette.length] }));
+}
+
+// Parse a list of 0-based positions separated by commas, whitespace or newlines
+export function parsePositionList(text: string): number[] {
+    const positions = text.split(/[\s,;]+/)
+        .filter(field => field !== "")
+        .map(field => {
+            const position = Number(field);
+            if (!Number.isInteger(position) || position < 0) {
+                throw new Error(`Invalid position "${field}"`);
+            }
+            return position;
+        });
+    return Array.from(new Set(positions)).sort((a, b) => a - b);
+}
+
+// Sites of the anchor type annotated in the GTF, none for custom positions
+export function annotatedPositions(anchor: SignalAnchor, transcriptome: Transcriptome): number[] {
+    switch (anchor) {
+        case "donors":
+            return Array.from(transcriptome.donors());
+        case "acceptors":
+            return Array.from(transcriptome.acceptors());
+        default:
+            return [];
+    }
+}
+
+// Positions of the zoom cells of a track: the annotated sites, the user's own and the discovered ones,
+// without the excluded sites. Sorted and free of duplicates.
+export function anchorPositions(track: SignalTrack, transcriptome: Transcriptome): number[] {
+    const excluded = new Set(track.excludedPositions);
+    const positions = new Set([
+        ...annotatedPositions(track.anchor, transcriptome),
+        ...track.customPositions,
+        ...track.discoveredPositions,
+    ]);
+    return Array.from(positions).filter(position => !excluded.has(position)).sort((a, b) => a - b);
+}
+
+// Positions covered by the zoom cell of a site. At splice sites the window reaches further into the exon than into
+// the intron, so it is mirrored around the site for minus-strand transcripts. Custom positions are centered.
+export function zoomWindow(anchor: SignalAnchor, position: number, strand: Strand, zoomWidth: number): [number, number] {
+    if (anchor === "custom") {
+        return [position - zoomWidth, position + zoomWidth];
+    }
+    const exonOffset = anchor === "donors" ? 2 : 4;
+    if (strand === "-") {
+        return [position - zoomWidth, position + zoomWidth + exonOffset];
+    }
+    return [position - zoomWidth - exonOffset, position + zoomWidth];
+}
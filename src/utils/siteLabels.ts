@@ -0,0 +1,57 @@
+import { SignalAnchor } from './signalTracks';
+
+// User given site names keyed by siteNameKey. Names from a mapping file without a seqid column apply to every
+// sequence and are stored under the empty seqid.
+export type SiteNames = Map<string, string>;
+
+const ordinalPrefixes: { [anchor in SignalAnchor]: string } = {
+    donors: "D",
+    acceptors: "A",
+    custom: "P",
+};
+
+export function siteNameKey(seqid: string, position: number): string {
+    return `${seqid}:${position}`;
+}
+
+// Mapping file with "position, name" or "seqid, position, name" per line, tab or comma separated,
+// e.g. "K03455.1	743	D1". Lines starting with # and a header line are skipped.
+export function parseSiteNames(text: string): SiteNames {
+    const names: SiteNames = new Map();
+    text.split(/\r?\n/).forEach((rawLine, i) => {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#")) {
+            return;
+        }
+        const fields = line.split(/\t|,/).map(field => field.trim());
+        if (fields.length < 2) {
+            throw new Error(`Line ${i + 1}: expected two columns (position, name) or three (seqid, position, name)`);
+        }
+        const [seqid, position, name] = fields.length >= 3 ? fields : ["", ...fields];
+        if (i === 0 && position.toLowerCase() === "position") {
+            return;
+        }
+        if (!/^\d+$/.test(position)) {
+            throw new Error(`Line ${i + 1}: position must be a positive integer, got "${position}"`);
+        }
+        if (name === "") {
+            throw new Error(`Line ${i + 1}: the name is empty`);
+        }
+        names.set(siteNameKey(seqid, Number(position)), name);
+    });
+    if (names.size === 0) {
+        throw new Error("No site names found in the file");
+    }
+    return names;
+}
+
+// Name of a site on the given sequence, preferring names given for that sequence over sequence-less ones
+export function siteName(names: SiteNames, seqid: string, position: number): string | undefined {
+    return names.get(siteNameKey(seqid, position)) ?? names.get(siteNameKey("", position));
+}
+
+// Automatic names in genome order: D1, D2... for donors, A1, A2... for acceptors and P1, P2... for custom positions
+export function ordinalSiteNames(anchor: SignalAnchor, sites: number[]): Map<number, string> {
+    const sorted = Array.from(new Set(sites)).sort((a, b) => a - b);
+    return new Map(sorted.map((site, i) => [site, `${ordinalPrefixes[anchor]}${i + 1}`]));
+}
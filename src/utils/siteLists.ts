@@ -0,0 +1,72 @@
+import * as d3 from 'd3';
+
+import { Transcriptome } from 'sparrowgenomelib';
+
+import { SignalSummary } from './signalSummary';
+import { annotatedPositions } from './signalTracks';
+
+// Zoom cell positions from an uploaded site list. BED lines give their start, two column lines are seqid and
+// position and single column lines a position. Lines of other sequences than the plotted one are skipped.
+export function parseSiteList(text: string, seqid: string): number[] {
+    const positions: Set<number> = new Set();
+    text.split(/\r?\n/).forEach((rawLine, i) => {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#") || line.startsWith("track") || line.startsWith("browser")) {
+            return;
+        }
+        const fields = line.split(/\t|,/).map(field => field.trim());
+        const [lineSeqid, position] = fields.length >= 2 ? [fields[0], fields[1]] : [null, fields[0]];
+        if (!/^\d+$/.test(position)) {
+            // a header naming the columns
+            if (i === 0) {
+                return;
+            }
+            throw new Error(`Line ${i + 1}: position must be a non-negative integer, got "${position}"`);
+        }
+        if (lineSeqid === null || lineSeqid === seqid) {
+            positions.add(Number(position));
+        }
+    });
+    if (positions.size === 0) {
+        throw new Error(`No sites on ${seqid} found in the file`);
+    }
+    return Array.from(positions).sort((a, b) => a - b);
+}
+
+// Candidate sites missing from the annotation: positions whose mean score reaches the threshold. Neighbouring
+// positions above the threshold form one peak, which is reported at its highest mean. Peaks within 1 bp of an
+// annotated donor or acceptor are left out.
+export function discoverSites(summary: SignalSummary, transcriptome: Transcriptome, threshold: number): number[] {
+    const annotated = new Set([
+        ...annotatedPositions("donors", transcriptome),
+        ...annotatedPositions("acceptors", transcriptome),
+    ]);
+
+    const sites: number[] = [];
+    let peak: { start: number, end: number, best: number, score: number } | null = null;
+    const closePeak = () => {
+        if (peak && !d3.range(peak.start - 1, peak.end + 2).some(position => annotated.has(position))) {
+            sites.push(peak.best);
+        }
+        peak = null;
+    };
+
+    // means are stored in position order
+    summary.means.forEach(({ score }, position) => {
+        if (score < threshold) {
+            return;
+        }
+        if (peak && position === peak.end + 1) {
+            peak.end = position;
+            if (score > peak.score) {
+                peak.best = position;
+                peak.score = score;
+            }
+            return;
+        }
+        closePeak();
+        peak = { start: position, end: position, best: position, score };
+    });
+    closePeak();
+    return sites;
+}
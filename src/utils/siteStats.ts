@@ -0,0 +1,35 @@
+import * as d3 from 'd3';
+
+export type SiteType = 'donors' | 'acceptors';
+
+export interface ScoreSummary {
+    n: number;
+    mean: number;
+    median: number;
+    q1: number;
+    q3: number;
+    lowerWhisker: number; // smallest value within 1.5 IQR of Q1
+    upperWhisker: number; // largest value within 1.5 IQR of Q3
+}
+
+// Boxplot statistics for a list of scores. Returns null for an empty list.
+export function summarizeScores(scores: number[]): ScoreSummary | null {
+    if (scores.length === 0) {
+        return null;
+    }
+    const sorted = scores.slice().sort((a, b) => a - b);
+    const q1 = d3.quantile(sorted, 0.25) || 0;
+    const median = d3.quantile(sorted, 0.5) || 0;
+    const q3 = d3.quantile(sorted, 0.75) || 0;
+    const iqr = q3 - q1;
+
+    return {
+        n: sorted.length,
+        mean: d3.mean(sorted) || 0,
+        median,
+        q1,
+        q3,
+        lowerWhisker: d3.min(sorted.filter(score => score >= q1 - 1.5 * iqr)) ?? q1,
+        upperWhisker: d3.max(sorted.filter(score => score <= q3 + 1.5 * iqr)) ?? q3,
+    };
+}
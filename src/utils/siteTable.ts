@@ -0,0 +1,96 @@
+import { Transcriptome } from 'sparrowgenomelib';
+
+import { SignalTrack, anchorPositions, zoomWindow } from './signalTracks';
+import { SignalSummary } from './signalSummary';
+import { ScoreSummary, summarizeScores } from './siteStats';
+import { Strand, inferSiteStrand, strandsAgree, transcriptsAtSite } from './transcriptomeUtils';
+
+export type SiteTableFormat = 'tsv' | 'csv';
+
+// Numbers behind one position of a zoom cell
+export interface SiteTableRow {
+    trackName: string;
+    anchor: string;
+    site: number;
+    strand: Strand;
+    offset: number; // distance from the site in transcript direction (5' negative, 3' positive)
+    position: number;
+    summary: ScoreSummary | null; // null when no sample has a value at this position
+    transcripts: string[];
+}
+
+// One row per site and position of its zoom window, using the same windows and strand filtering as the plot.
+// Only sites inside the view window are included when one is set.
+export function buildSiteTable(tracks: SignalTrack[], summaries: Map<string, SignalSummary>, transcriptome: Transcriptome,
+    zoomWidth: number, viewRange: [number, number] | null): SiteTableRow[] {
+    const rows: SiteTableRow[] = [];
+    const strands: Map<number, Strand> = new Map();
+    const transcripts: Map<number, string[]> = new Map();
+
+    tracks.forEach(track => {
+        const summary = summaries.get(track.id);
+        if (!summary) {
+            return;
+        }
+        const sites = anchorPositions(track, transcriptome)
+            .filter(site => !viewRange || (site >= viewRange[0] && site <= viewRange[1]))
+            .sort((a, b) => a - b);
+
+        sites.forEach(site => {
+            if (!strands.has(site)) {
+                strands.set(site, inferSiteStrand(transcriptome, site));
+                transcripts.set(site, transcriptsAtSite(transcriptome, site));
+            }
+            const strand = strands.get(site)!;
+            const [start, end] = zoomWindow(track.anchor, site, strand, zoomWidth);
+
+            for (let position = start; position <= end; position++) {
+                const scores = (summary.scores.get(position) ?? [])
+                    .filter(value => strandsAgree(value.strand, strand))
+                    .map(value => value.score);
+                rows.push({
+                    trackName: track.name,
+                    anchor: track.anchor,
+                    site,
+                    strand,
+                    offset: strand === "-" ? site - position : position - site,
+                    position,
+                    summary: summarizeScores(scores),
+                    transcripts: transcripts.get(site)!,
+                });
+            }
+        });
+    });
+    return rows;
+}
+
+// quote CSV fields that contain the separator, quotes or line breaks
+function csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function siteTableToText(rows: SiteTableRow[], format: SiteTableFormat): string {
+    const separator = format === "csv" ? "," : "\t";
+    const field = format === "csv" ? csvField : (value: string) => value.replace(/[\t\n]/g, " ");
+    const number = (value: number | undefined) => value === undefined ? "" : value.toFixed(4);
+
+    const header = ["track", "anchor", "site", "strand", "offset", "position", "n", "mean", "median", "q1", "q3",
+        "lower_whisker", "upper_whisker", "transcripts"];
+    const lines = rows.map(row => [
+        field(row.trackName),
+        row.anchor,
+        String(row.site),
+        row.strand,
+        String(row.offset),
+        String(row.position),
+        String(row.summary?.n ?? 0),
+        number(row.summary?.mean),
+        number(row.summary?.median),
+        number(row.summary?.q1),
+        number(row.summary?.q3),
+        number(row.summary?.lowerWhisker),
+        number(row.summary?.upperWhisker),
+        field(row.transcripts.join(";")),
+    ].join(separator));
+    return [header.join(separator), ...lines].join("\n") + "\n";
+}
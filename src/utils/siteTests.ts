@@ -0,0 +1,145 @@
+import * as d3 from 'd3';
+
+import { BedData, Transcriptome } from 'sparrowgenomelib';
+
+import { SampleGroups, UNGROUPED } from './sampleGroups';
+import { SignalTrack, anchorPositions } from './signalTracks';
+import { benjaminiHochberg, kruskalWallis, mannWhitneyU } from './statistics';
+
+export interface SiteTestResult {
+    trackId: string;
+    trackName: string;
+    position: number;
+    test: 'Mann-Whitney U' | 'Kruskal-Wallis';
+    groups: { name: string, n: number, median: number }[];
+    statistic: number;
+    pValue: number;
+    adjustedPValue: number; // Benjamini-Hochberg across all tested sites
+    effectSize: number; // rank-biserial correlation (Mann-Whitney U) or epsilon squared (Kruskal-Wallis)
+}
+
+export function significanceLabel(adjustedPValue: number): string {
+    if (adjustedPValue < 0.001) return "***";
+    if (adjustedPValue < 0.01) return "**";
+    if (adjustedPValue < 0.05) return "*";
+    return "";
+}
+
+// Compare score distributions between sample groups at every anchor position of every signal track.
+// Two groups are compared with Mann-Whitney U, three or more with Kruskal-Wallis.
+// Samples outside of any group and groups with fewer than two values at a site are left out.
+export function testSites(tracks: { id: string, name: string, positions: number[], bedData: BedData }[],
+    sampleGroups: SampleGroups): SiteTestResult[] {
+    const results: Omit<SiteTestResult, 'adjustedPValue'>[] = [];
+
+    tracks.forEach(track => {
+        track.positions.forEach(position => {
+            const groupScores: Map<string, number[]> = new Map();
+            track.bedData.getPos(position)
+                .filter(line => line.start === position)
+                .forEach(line => {
+                    const group = sampleGroups.assignments.get(line.name);
+                    if (group === undefined || group === UNGROUPED) {
+                        return;
+                    }
+                    if (!groupScores.has(group)) {
+                        groupScores.set(group, []);
+                    }
+                    groupScores.get(group)!.push(line.score);
+                });
+
+            const groups = sampleGroups.groups.filter(group => (groupScores.get(group)?.length ?? 0) >= 2);
+            if (groups.length < 2) {
+                return;
+            }
+            const values = groups.map(group => groupScores.get(group)!);
+            const result = groups.length === 2 ? mannWhitneyU(values[0], values[1]) : kruskalWallis(values);
+
+            results.push({
+                trackId: track.id,
+                trackName: track.name,
+                position,
+                test: groups.length === 2 ? 'Mann-Whitney U' : 'Kruskal-Wallis',
+                groups: groups.map((name, i) => ({
+                    name,
+                    n: values[i].length,
+                    median: d3.median(values[i]) ?? 0,
+                })),
+                ...result,
+            });
+        });
+    });
+
+    const adjusted = benjaminiHochberg(results.map(result => result.pValue));
+    return results.map((result, i) => ({ ...result, adjustedPValue: adjusted[i] }));
+}
+
+interface SiteTestInput {
+    id: string;
+    name: string;
+    positions: number[];
+    bedData: BedData;
+}
+
+function testInputs(tracks: SignalTrack[], transcriptome: Transcriptome): SiteTestInput[] {
+    return tracks.map(track => ({
+        id: track.id,
+        name: track.name,
+        positions: anchorPositions(track, transcriptome),
+        bedData: track.bedFile.data,
+    }));
+}
+
+// Test every anchor position of the given signal tracks
+export function testSignalTracks(tracks: SignalTrack[], transcriptome: Transcriptome,
+    sampleGroups: SampleGroups): SiteTestResult[] {
+    return testSites(testInputs(tracks, transcriptome), sampleGroups);
+}
+
+function sameSampleGroups(a: SampleGroups, b: SampleGroups): boolean {
+    return a.groups.length === b.groups.length && a.groups.every((group, i) => group === b.groups[i])
+        && a.assignments.size === b.assignments.size
+        && Array.from(a.assignments).every(([sample, group]) => b.assignments.get(sample) === group);
+}
+
+function sameTestInputs(a: SiteTestInput[], b: SiteTestInput[]): boolean {
+    const previous = new Map(a.map(input => [input.id, input]));
+    return a.length === b.length && b.every(input => {
+        const other = previous.get(input.id);
+        return other !== undefined && other.bedData === input.bedData && other.positions.length === input.positions.length
+            && other.positions.every((position, i) => position === input.positions[i]);
+    });
+}
+
+// testSignalTracks for tracks that change often in other ways: the sites are only tested again when the data, the
+// anchor positions or the sample groups change. Hidden, reordered, resized or renamed tracks reuse the results.
+export function createSiteTestCache(): (tracks: SignalTrack[], transcriptome: Transcriptome,
+    sampleGroups: SampleGroups) => SiteTestResult[] {
+    let previous: { inputs: SiteTestInput[], sampleGroups: SampleGroups, results: SiteTestResult[] } | null = null;
+    return (tracks, transcriptome, sampleGroups) => {
+        const inputs = testInputs(tracks, transcriptome);
+        if (!previous || !sameSampleGroups(previous.sampleGroups, sampleGroups) || !sameTestInputs(previous.inputs, inputs)) {
+            previous = { inputs, sampleGroups, results: testSites(inputs, sampleGroups) };
+            return previous.results;
+        }
+        const order = new Map(inputs.map((input, i) => [input.id, i]));
+        return previous.results
+            .map(result => ({ ...result, trackName: inputs[order.get(result.trackId)!].name }))
+            .sort((a, b) => order.get(a.trackId)! - order.get(b.trackId)!);
+    };
+}
+
+export function siteTestsToTsv(results: SiteTestResult[]): string {
+    const header = ["track", "position", "test", "groups", "statistic", "p_value", "adjusted_p_value", "effect_size"];
+    const rows = results.map(result => [
+        result.trackName,
+        result.position,
+        result.test,
+        result.groups.map(group => `${group.name}(n=${group.n},median=${group.median.toFixed(4)})`).join(";"),
+        result.statistic.toFixed(4),
+        result.pValue.toExponential(4),
+        result.adjustedPValue.toExponential(4),
+        result.effectSize.toFixed(4),
+    ].join("\t"));
+    return [header.join("\t"), ...rows].join("\n") + "\n";
+}
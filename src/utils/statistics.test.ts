@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { benjaminiHochberg, kruskalWallis, mannWhitneyU } from './statistics';
+
+describe("mannWhitneyU", () => {
+    it("gives the extreme effect size for separated groups", () => {
+        const result = mannWhitneyU([1, 2, 3], [4, 5, 6]);
+        expect(result.statistic).toBe(0);
+        expect(result.effectSize).toBe(-1);
+        expect(mannWhitneyU([4, 5, 6], [1, 2, 3]).effectSize).toBe(1);
+    });
+
+    it("averages the ranks of ties and corrects the variance for them", () => {
+        // ranks 1, 3, 3 | 3, 5.5, 5.5, tie term (3^3 - 3) + (2^3 - 2) = 30
+        const result = mannWhitneyU([1, 2, 2], [2, 3, 3]);
+        expect(result.statistic).toBe(1);
+        expect(result.pValue).toBeCloseTo(0.157299, 5);
+        expect(result.effectSize).toBeCloseTo(2 / 9 - 1, 10);
+    });
+
+    it("does not test groups whose values are all tied", () => {
+        expect(mannWhitneyU([0.5, 0.5], [0.5, 0.5])).toEqual({ statistic: 2, pValue: 1, effectSize: 0 });
+    });
+});
+
+describe("kruskalWallis", () => {
+    it("corrects H for ties", () => {
+        const result = kruskalWallis([[1, 2, 2], [2, 3, 3]]);
+        expect(result.statistic).toBeCloseTo(2.722222, 5);
+        expect(result.pValue).toBeCloseTo(0.098960, 5);
+    });
+
+    it("compares three groups", () => {
+        const result = kruskalWallis([[1, 2, 2], [2, 3, 3], [4, 4, 5]]);
+        expect(result.statistic).toBeCloseTo(6.830409, 5);
+        expect(result.pValue).toBeCloseTo(0.032870, 5);
+        expect(result.effectSize).toBeCloseTo(6.830409 / 8, 5);
+    });
+
+    it("does not test groups whose values are all tied", () => {
+        expect(kruskalWallis([[1, 1], [1, 1], [1, 1]])).toEqual({ statistic: 0, pValue: 1, effectSize: 0 });
+    });
+});
+
+describe("benjaminiHochberg", () => {
+    it("adjusts in the order of the input and keeps the adjusted values monotone", () => {
+        const adjusted = benjaminiHochberg([0.01, 0.04, 0.03, 0.2]);
+        expect(adjusted[0]).toBeCloseTo(0.04, 10);
+        expect(adjusted[1]).toBeCloseTo(0.04 * 4 / 3, 10);
+        expect(adjusted[2]).toBeCloseTo(0.04 * 4 / 3, 10);
+        expect(adjusted[3]).toBeCloseTo(0.2, 10);
+    });
+
+    it("caps adjusted values at 1", () => {
+        expect(benjaminiHochberg([0.5, 0.9, 0.8])).toEqual([0.9, 0.9, 0.9]);
+    });
+
+    it("returns nothing for no p-values", () => {
+        expect(benjaminiHochberg([])).toEqual([]);
+    });
+});
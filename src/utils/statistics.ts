@@ -0,0 +1,165 @@
+// Non-parametric tests used to compare splice-site usage between sample groups
+
+export interface TestResult {
+    statistic: number;
+    pValue: number;
+    effectSize: number;
+}
+
+// Ranks (1-based) with ties assigned their average rank, plus the tie correction term sum(t^3 - t)
+function rankWithTies(values: number[]): { ranks: number[], tieTerm: number } {
+    const order = values.map((value, idx) => ({ value, idx })).sort((a, b) => a.value - b.value);
+    const ranks = new Array<number>(values.length);
+    let tieTerm = 0;
+    let i = 0;
+    while (i < order.length) {
+        let j = i;
+        while (j + 1 < order.length && order[j + 1].value === order[i].value) {
+            j++;
+        }
+        const averageRank = (i + j) / 2 + 1;
+        for (let k = i; k <= j; k++) {
+            ranks[order[k].idx] = averageRank;
+        }
+        const t = j - i + 1;
+        tieTerm += t * t * t - t;
+        i = j + 1;
+    }
+    return { ranks, tieTerm };
+}
+
+// Abramowitz and Stegun 7.1.26 approximation of the error function
+function erf(x: number): number {
+    const sign = x < 0 ? -1 : 1;
+    const ax = Math.abs(x);
+    const t = 1 / (1 + 0.3275911 * ax);
+    const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+    return sign * y;
+}
+
+export function normalCdf(z: number): number {
+    return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+// Lanczos approximation of log-gamma
+function logGamma(x: number): number {
+    const coefficients = [
+        76.180091729471, -86.50532032941678, 24.01409824083091,
+        -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+    ];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.00000000019001;
+    for (const c of coefficients) {
+        series += c / ++y;
+    }
+    return -tmp + Math.log(2.5066282746310007 * series / x);
+}
+
+// Regularized upper incomplete gamma function Q(a, x)
+function upperIncompleteGamma(a: number, x: number): number {
+    if (x <= 0) {
+        return 1;
+    }
+    const logPrefix = -x + a * Math.log(x) - logGamma(a);
+    if (x < a + 1) {
+        // series representation of P(a, x)
+        let term = 1 / a;
+        let sum = term;
+        for (let n = 1; n < 500; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * 1e-14) {
+                break;
+            }
+        }
+        return 1 - sum * Math.exp(logPrefix);
+    }
+    // continued fraction representation of Q(a, x) (modified Lentz)
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-14) {
+            break;
+        }
+    }
+    return Math.exp(logPrefix) * h;
+}
+
+export function chiSquareSurvival(x: number, df: number): number {
+    return upperIncompleteGamma(df / 2, x / 2);
+}
+
+// Two-sided Mann-Whitney U (Wilcoxon rank-sum) test with normal approximation, tie and continuity correction.
+// The effect size is the rank-biserial correlation, positive when values in a tend to exceed values in b.
+export function mannWhitneyU(a: number[], b: number[]): TestResult {
+    const n1 = a.length;
+    const n2 = b.length;
+    const n = n1 + n2;
+    const { ranks, tieTerm } = rankWithTies([...a, ...b]);
+    const rankSumA = ranks.slice(0, n1).reduce((sum, rank) => sum + rank, 0);
+    const u = rankSumA - n1 * (n1 + 1) / 2;
+
+    const meanU = n1 * n2 / 2;
+    const sigma = Math.sqrt(n1 * n2 / 12 * ((n + 1) - tieTerm / (n * (n - 1))));
+    if (!(sigma > 0)) {
+        return { statistic: u, pValue: 1, effectSize: 0 };
+    }
+    const diff = u - meanU;
+    const z = (Math.abs(diff) - 0.5) / sigma;
+    const pValue = Math.min(1, 2 * (1 - normalCdf(Math.max(0, z))));
+
+    return { statistic: u, pValue, effectSize: 2 * u / (n1 * n2) - 1 };
+}
+
+// Kruskal-Wallis H test with tie correction and chi-square approximation.
+// The effect size is epsilon squared, H / (N - 1).
+export function kruskalWallis(groups: number[][]): TestResult {
+    const values = groups.flat();
+    const n = values.length;
+    const { ranks, tieTerm } = rankWithTies(values);
+
+    let offset = 0;
+    let sumTerm = 0;
+    groups.forEach(group => {
+        const rankSum = ranks.slice(offset, offset + group.length).reduce((sum, rank) => sum + rank, 0);
+        sumTerm += rankSum * rankSum / group.length;
+        offset += group.length;
+    });
+
+    const correction = 1 - tieTerm / (n * n * n - n);
+    if (!(correction > 0)) {
+        return { statistic: 0, pValue: 1, effectSize: 0 };
+    }
+    const h = (12 / (n * (n + 1)) * sumTerm - 3 * (n + 1)) / correction;
+    return {
+        statistic: h,
+        pValue: Math.min(1, chiSquareSurvival(h, groups.length - 1)),
+        effectSize: h / (n - 1),
+    };
+}
+
+// Benjamini-Hochberg adjusted p-values, returned in the order of the input
+export function benjaminiHochberg(pValues: number[]): number[] {
+    const m = pValues.length;
+    const order = pValues.map((p, idx) => ({ p, idx })).sort((a, b) => a.p - b.p);
+    const adjusted = new Array<number>(m);
+    let runningMin = 1;
+    for (let i = m - 1; i >= 0; i--) {
+        runningMin = Math.min(runningMin, order[i].p * m / (i + 1));
+        adjusted[order[i].idx] = runningMin;
+    }
+    return adjusted;
+}
@@ -0,0 +1,89 @@
+import * as d3 from 'd3';
+
+export type PaletteName = 'default' | 'okabeIto' | 'tolBright' | 'viridis' | 'grayscale';
+export type SiteLineStyle = 'dashed' | 'dotted' | 'solid';
+
+export interface Palette {
+    label: string;
+    colorblindSafe: boolean;
+    colors: readonly string[]; // signal tracks, in order
+    groupColors?: readonly string[]; // sample groups, the track colors when missing
+    junction: string; // arcs of the junction track
+}
+
+export const palettes: { [name in PaletteName]: Palette } = {
+    default: {
+        label: "Default",
+        colorblindSafe: false,
+        colors: ["#F78154", "#5FAD56", "#4D9DE0", "#E15759", "#B07AA1", "#EDC948", "#9C755F", "#76B7B2"],
+        groupColors: d3.schemeTableau10,
+        junction: "#6A4C93",
+    },
+    // Okabe & Ito, "Color Universal Design"
+    okabeIto: {
+        label: "Okabe-Ito",
+        colorblindSafe: true,
+        colors: ["#E69F00", "#56B4E9", "#009E73", "#F0E442", "#0072B2", "#D55E00", "#CC79A7"],
+        junction: "#0072B2",
+    },
+    // Paul Tol's bright qualitative scheme
+    tolBright: {
+        label: "Tol bright",
+        colorblindSafe: true,
+        colors: ["#4477AA", "#EE6677", "#228833", "#CCBB44", "#66CCEE", "#AA3377", "#BBBBBB"],
+        junction: "#AA3377",
+    },
+    viridis: {
+        label: "Viridis",
+        colorblindSafe: true,
+        colors: ["#440154", "#21918C", "#FDE725", "#3B528B", "#5EC962"],
+        junction: "#3B528B",
+    },
+    grayscale: {
+        label: "Grayscale (print)",
+        colorblindSafe: true,
+        colors: ["#444444", "#999999", "#6E6E6E", "#BBBBBB", "#222222"],
+        junction: "#555555",
+    },
+};
+
+export function sampleGroupColors(palette: Palette): readonly string[] {
+    return palette.groupColors ?? palette.colors;
+}
+
+export const siteLineDashes: { [style in SiteLineStyle]: string | null } = {
+    dashed: "5,5",
+    dotted: "1,3",
+    solid: null,
+};
+
+export interface ThemeSettings {
+    palette: PaletteName;
+    darkMode: boolean;
+    siteLineStyle: SiteLineStyle;
+}
+
+// Colors and line styles of everything in the plot that is not a track color
+export interface PlotTheme {
+    dark: boolean;
+    background: string;
+    foreground: string; // axes, labels, medians and whiskers
+    muted: string; // baselines and other guides
+    highlight: string; // canonical splice site dinucleotides
+    siteLineDash: string | null; // stroke-dasharray of the site overlays, null for solid lines
+    palette: Palette;
+}
+
+export function buildTheme(settings: ThemeSettings): PlotTheme {
+    const base = settings.darkMode
+        ? { background: "#1E1E1E", foreground: "#E6E6E6", muted: "#5A5A5A", highlight: "#8C7A2B" }
+        : { background: "white", foreground: "#333", muted: "#ccc", highlight: "#FFE066" };
+    return {
+        ...base,
+        dark: settings.darkMode,
+        siteLineDash: siteLineDashes[settings.siteLineStyle],
+        palette: palettes[settings.palette],
+    };
+}
+
+export const defaultTheme = buildTheme({ palette: "default", darkMode: false, siteLineStyle: "dashed" });
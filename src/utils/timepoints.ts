@@ -0,0 +1,155 @@
+import * as d3 from 'd3';
+
+export type TimepointMode = 'none' | 'regex' | 'sheet';
+
+export interface SampleTimepoint {
+    subject: string; // e.g. the animal or patient
+    time: number;
+}
+
+export interface SampleTimepoints {
+    subjects: string[]; // in natural order
+    times: number[]; // every timepoint of any subject, ascending
+    colors: { [subject: string]: string };
+    assignments: Map<string, SampleTimepoint>; // sample name -> subject and time, unmatched samples are left out
+}
+
+// usage of one site over time
+export interface TimeCourse {
+    subjects: { subject: string, points: { time: number, score: number }[] }[]; // points in time order
+    trend: { time: number, mean: number, n: number }[]; // mean over all subjects at each timepoint
+}
+
+function parseTime(sample: string, text: string): number {
+    const time = Number(text);
+    if (text.trim() === "" || !Number.isFinite(time)) {
+        throw new Error(`Sample ${sample}: timepoint "${text}" is not a number`);
+    }
+    return time;
+}
+
+function buildSampleTimepoints(assignments: Map<string, SampleTimepoint>, palette: readonly string[]): SampleTimepoints {
+    const values = Array.from(assignments.values());
+    const subjects = Array.from(new Set(values.map(value => value.subject)))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const times = Array.from(new Set(values.map(value => value.time))).sort((a, b) => a - b);
+    const colors: { [subject: string]: string } = {};
+    subjects.forEach((subject, i) => {
+        colors[subject] = palette[i % palette.length];
+    });
+    return { subjects, times, colors, assignments };
+}
+
+// Subject and timepoint from a regular expression applied to the BED name column. Named groups "subject" and
+// "time" are used when present, otherwise the first two capture groups, e.g. "(A\d+)p(\d+)" reads AY69A4p3 as
+// subject A4 at time 3. Samples the pattern does not match are left out. Returns null while there are no samples.
+export function timepointsByPattern(names: string[], pattern: string,
+    palette: readonly string[] = d3.schemeTableau10): SampleTimepoints | null {
+    const regex = new RegExp(pattern); // throws on invalid patterns - caller reports the error
+    if (names.length === 0) {
+        return null;
+    }
+    const assignments = new Map<string, SampleTimepoint>();
+    names.forEach(name => {
+        const match = name.match(regex);
+        if (!match) {
+            return;
+        }
+        const subject = match.groups?.subject ?? match[1];
+        const time = match.groups?.time ?? match[2];
+        if (subject === undefined || time === undefined) {
+            throw new Error("The pattern needs two capture groups, subject and timepoint");
+        }
+        assignments.set(name, { subject, time: parseTime(name, time) });
+    });
+    if (assignments.size === 0) {
+        throw new Error("No sample name matches the pattern");
+    }
+    return buildSampleTimepoints(assignments, palette);
+}
+
+// Parse a three-column metadata sheet (sample, subject, time) separated by tabs or commas.
+// Lines starting with '#' and a "sample" header line are skipped.
+export function parseTimepointSheet(text: string): Map<string, SampleTimepoint> {
+    const sheet = new Map<string, SampleTimepoint>();
+    text.split(/\r?\n/).forEach((rawLine, i) => {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#")) {
+            return;
+        }
+        const fields = line.split(/\t|,/).map(field => field.trim());
+        if (fields.length < 3) {
+            throw new Error(`Line ${i + 1}: expected three columns (sample, subject, time)`);
+        }
+        if (i === 0 && fields[0].toLowerCase() === "sample") {
+            return;
+        }
+        try {
+            sheet.set(fields[0], { subject: fields[1], time: parseTime(fields[0], fields[2]) });
+        } catch (error) {
+            throw new Error(`Line ${i + 1}: ${(error as Error).message}`);
+        }
+    });
+    return sheet;
+}
+
+export function timepointsBySheet(names: string[], sheet: Map<string, SampleTimepoint>,
+    palette: readonly string[] = d3.schemeTableau10): SampleTimepoints {
+    const assignments = new Map<string, SampleTimepoint>();
+    names.forEach(name => {
+        const timepoint = sheet.get(name);
+        if (timepoint) {
+            assignments.set(name, timepoint);
+        }
+    });
+    return buildSampleTimepoints(assignments, palette);
+}
+
+// Subjects and timepoints according to the longitudinal settings. Returns null when the mode is off, no sheet is
+// loaded yet or there are no samples, and throws on an invalid pattern.
+export function sampleTimepoints(names: string[], mode: TimepointMode, pattern: string,
+    sheet: Map<string, SampleTimepoint>, palette: readonly string[] = d3.schemeTableau10): SampleTimepoints | null {
+    switch (mode) {
+        case "none":
+            return null;
+        case "sheet":
+            return sheet.size === 0 ? null : timepointsBySheet(names, sheet, palette);
+        default:
+            return timepointsByPattern(names, pattern, palette);
+    }
+}
+
+// Scores of the samples at one site arranged by subject and time. Several samples of a subject at the same
+// timepoint, e.g. replicates, are averaged.
+export function timeCourse(scores: { name: string, score: number }[], timepoints: SampleTimepoints): TimeCourse {
+    const bySubject: Map<string, Map<number, number[]>> = new Map();
+    scores.forEach(({ name, score }) => {
+        const timepoint = timepoints.assignments.get(name);
+        if (!timepoint) {
+            return;
+        }
+        if (!bySubject.has(timepoint.subject)) {
+            bySubject.set(timepoint.subject, new Map());
+        }
+        const times = bySubject.get(timepoint.subject)!;
+        times.set(timepoint.time, [...(times.get(timepoint.time) ?? []), score]);
+    });
+
+    const subjects = timepoints.subjects
+        .filter(subject => bySubject.has(subject))
+        .map(subject => ({
+            subject,
+            points: Array.from(bySubject.get(subject)!.entries())
+                .map(([time, values]) => ({ time, score: d3.mean(values) ?? 0 }))
+                .sort((a, b) => a.time - b.time),
+        }));
+
+    const trend = timepoints.times
+        .map(time => {
+            const values = subjects.flatMap(({ points }) => points.filter(point => point.time === time).map(point => point.score));
+            return { time, mean: d3.mean(values) ?? 0, n: values.length };
+        })
+        .filter(point => point.n > 0);
+
+    return { subjects, trend };
+}
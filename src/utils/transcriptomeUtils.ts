@@ -0,0 +1,93 @@
+import { Transcriptome } from 'sparrowgenomelib';
+
+export interface NearestFeature {
+    transcriptId: string;
+    exonNumber: number; // 1-based, in genomic order
+    exonStart: number;
+    exonEnd: number;
+    distance: number; // 0 when the position falls inside the exon
+}
+
+// Find the exon closest to a genomic position across all transcripts of the transcriptome
+export function findNearestExon(transcriptome: Transcriptome, position: number): NearestFeature | null {
+    let nearest: NearestFeature | null = null;
+    for (const transcript of transcriptome) {
+        const exons = transcript.getExons();
+        exons.forEach((exon, i) => {
+            const start = exon.getStart();
+            const end = exon.getEnd();
+            const distance = position < start ? start - position : position > end ? position - end : 0;
+            if (nearest === null || distance < nearest.distance) {
+                nearest = {
+                    transcriptId: transcript.getTID(),
+                    exonNumber: i + 1,
+                    exonStart: start,
+                    exonEnd: end,
+                    distance,
+                };
+            }
+        });
+    }
+    return nearest;
+}
+
+export function formatNearestExon(feature: NearestFeature | null): string {
+    if (!feature) {
+        return "none";
+    }
+    const location = feature.distance === 0 ? "in" : `${feature.distance} bp from`;
+    return `${location} ${feature.transcriptId} exon ${feature.exonNumber} (${feature.exonStart}-${feature.exonEnd})`;
+}
+
+// Transcripts with an intron boundary at (or next to) a splice site
+export function transcriptsAtSite(transcriptome: Transcriptome, position: number): string[] {
+    const transcripts: string[] = [];
+    for (const transcript of transcriptome) {
+        const exons = transcript.getExons().slice().sort((a, b) => a.getStart() - b.getStart());
+        // the first exon start and last exon end are transcript ends, not splice sites
+        const boundaries = exons.flatMap((exon, i) => [
+            ...(i > 0 ? [exon.getStart()] : []),
+            ...(i < exons.length - 1 ? [exon.getEnd()] : []),
+        ]);
+        if (boundaries.some(boundary => Math.abs(boundary - position) <= 1)) {
+            transcripts.push(transcript.getTID());
+        }
+    }
+    return transcripts;
+}
+
+export type Strand = '+' | '-' | '.';
+
+// Strand of a splice site, taken from the transcripts with an exon boundary at (or next to) the site.
+// Falls back to the transcripts spanning the position and to "." when they disagree or none are found.
+export function inferSiteStrand(transcriptome: Transcriptome, position: number): Strand {
+    const boundaryStrands: Set<string> = new Set();
+    const spanningStrands: Set<string> = new Set();
+    for (const transcript of transcriptome) {
+        const exons = transcript.getExons();
+        if (exons.length === 0) {
+            continue;
+        }
+        const strand = transcript.getStrand();
+        const start = Math.min(...exons.map(exon => exon.getStart()));
+        const end = Math.max(...exons.map(exon => exon.getEnd()));
+        if (position >= start - 1 && position <= end + 1) {
+            spanningStrands.add(strand);
+        }
+        // donor and acceptor coordinates may sit on either side of the exon boundary
+        if (exons.some(exon => Math.abs(exon.getStart() - position) <= 1 || Math.abs(exon.getEnd() - position) <= 1)) {
+            boundaryStrands.add(strand);
+        }
+    }
+    const strands = boundaryStrands.size > 0 ? boundaryStrands : spanningStrands;
+    if (strands.size !== 1) {
+        return ".";
+    }
+    const strand = strands.values().next().value;
+    return strand === "+" || strand === "-" ? strand : ".";
+}
+
+// Unstranded lines and unstranded sites are compatible with anything
+export function strandsAgree(lineStrand: string, siteStrand: Strand): boolean {
+    return lineStrand === "." || siteStrand === "." || lineStrand === siteStrand;
+}
@@ -0,0 +1,277 @@
+import { ReferenceSequences } from './fasta';
+import { LineError } from './inputFiles';
+import { JunctionFile } from './junctions';
+import { SequenceRegion } from './sequences';
+import { MAX_REPORTED_LINES, signalDataFacts } from './signalFacts';
+import { SignalTrack } from './signalTracks';
+
+// Errors make the plot misleading or empty and hold it back until the user decides to plot anyway,
+// warnings only point out data that is ignored or unusual
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    severity: IssueSeverity;
+    input: string; // file or track the issue was found in
+    trackId: string | null; // signal track of the issue, so that it can be relabelled when the track is renamed
+    message: string;
+    count: number; // affected lines or records
+    lines: number[]; // first affected line numbers, empty when unknown
+}
+
+export interface ValidationReport {
+    issues: ValidationIssue[]; // errors first
+    errors: number;
+    warnings: number;
+}
+
+export interface ValidationInputs {
+    gtf: { fileName: string, regions: SequenceRegion[] } | null;
+    reference: { fileName: string, sequences: ReferenceSequences } | null;
+    junctions: JunctionFile | null; // only checked when the junction track is drawn from a file
+    signalTracks: SignalTrack[];
+    lineErrors: { [input: string]: LineError[] }; // keyed by "gtf", "fasta", "junctions" or signal track id
+    selectedSeqid: string;
+}
+
+function trackLabel(track: SignalTrack): string {
+    return track.bedFile.fileName !== "" ? `${track.name} (${track.bedFile.fileName})` : track.name;
+}
+
+function inputLabel(input: string, inputs: ValidationInputs): string {
+    const track = inputs.signalTracks.find(track => track.id === input);
+    if (track) {
+        return trackLabel(track);
+    }
+    switch (input) {
+        case "gtf":
+            return "GTF";
+        case "fasta":
+            return "Reference FASTA";
+        case "junctions":
+            return "Junctions";
+        default:
+            return input;
+    }
+}
+
+function checkSignalTrack(track: SignalTrack, regions: Map<string, SequenceRegion> | null, gtfName: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const input = trackLabel(track);
+    const facts = track.inputFacts ?? signalDataFacts(track.bedFile.data);
+    const sequences = Array.from(facts.sequences.entries());
+
+    if (regions) {
+        const missing = sequences.filter(([seqid]) => !regions.has(seqid));
+        const count = missing.reduce((sum, [, sequence]) => sum + sequence.count, 0);
+        const lines = missing
+            .map(([, sequence]) => sequence.firstLine)
+            .filter((line): line is number => line !== null)
+            .slice(0, MAX_REPORTED_LINES);
+        if (missing.length > 0 && missing.length === sequences.length) {
+            issues.push({
+                severity: "error",
+                input,
+                trackId: track.id,
+                message: `None of the sequences (${missing.map(([seqid]) => seqid).join(", ")}) are annotated in ${gtfName}. Nothing is plotted.`,
+                count,
+                lines,
+            });
+        } else if (missing.length > 0) {
+            issues.push({
+                severity: "warning",
+                input,
+                trackId: track.id,
+                message: `Sequences not annotated in ${gtfName} are ignored: ${missing.map(([seqid]) => seqid).join(", ")}`,
+                count,
+                lines,
+            });
+        }
+
+        sequences.forEach(([seqid, sequence]) => {
+            const region = regions.get(seqid);
+            // regions of ##sequence-region headers without a length have end 0
+            if (!region || region.end <= 0 || sequence.maxEnd <= region.end) {
+                return;
+            }
+            const beyond = track.bedFile.data.getData()
+                .filter(line => line.seqid === seqid && line.end > region.end).length;
+            issues.push({
+                severity: "error",
+                input,
+                trackId: track.id,
+                message: `Positions on ${seqid} end beyond the annotated end (${region.end}), up to ${sequence.maxEnd}`,
+                count: beyond,
+                lines: sequence.maxEndLine !== null ? [sequence.maxEndLine] : [],
+            });
+        });
+    }
+
+    if (facts.scoresOutOfRange.count > 0) {
+        issues.push({
+            severity: "warning",
+            input,
+            trackId: track.id,
+            message: "Scores outside the expected range of 0 to 1",
+            ...facts.scoresOutOfRange,
+        });
+    }
+    if (facts.duplicates.count > 0) {
+        issues.push({
+            severity: "warning",
+            input,
+            trackId: track.id,
+            message: "Duplicate rows for the same sample, position and strand",
+            ...facts.duplicates,
+        });
+    }
+    return issues;
+}
+
+function checkJunctions(junctions: JunctionFile, regions: Map<string, SequenceRegion>, gtfName: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const unannotated = junctions.junctions.filter(junction => !regions.has(junction.seqid));
+    if (unannotated.length > 0) {
+        const seqids = Array.from(new Set(unannotated.map(junction => junction.seqid)));
+        issues.push({
+            severity: "warning",
+            input: junctions.fileName,
+            trackId: null,
+            message: `Junctions on sequences not annotated in ${gtfName} are ignored: ${seqids.join(", ")}`,
+            count: unannotated.length,
+            lines: [],
+        });
+    }
+    const outside = junctions.junctions.filter(junction => {
+        const region = regions.get(junction.seqid);
+        return region !== undefined && region.end > 0 && Math.max(junction.donor, junction.acceptor) > region.end;
+    });
+    if (outside.length > 0) {
+        issues.push({
+            severity: "warning",
+            input: junctions.fileName,
+            trackId: null,
+            message: "Junctions reaching beyond the annotated end of their sequence",
+            count: outside.length,
+            lines: [],
+        });
+    }
+    return issues;
+}
+
+function checkReference(reference: { fileName: string, sequences: ReferenceSequences }, region: SequenceRegion | undefined,
+    selectedSeqid: string): ValidationIssue[] {
+    const sequence = reference.sequences.get(selectedSeqid);
+    if (sequence === undefined) {
+        return [{
+            severity: "warning",
+            input: reference.fileName,
+            trackId: null,
+            message: `Sequence ${selectedSeqid} is missing, no sequence is shown under the zoom cells`,
+            count: 1,
+            lines: [],
+        }];
+    }
+    if (region && sequence.length < region.end) {
+        return [{
+            severity: "warning",
+            input: reference.fileName,
+            trackId: null,
+            message: `Sequence ${selectedSeqid} is ${sequence.length} bases long but annotated up to ${region.end}`,
+            count: 1,
+            lines: [],
+        }];
+    }
+    return [];
+}
+
+// Check the loaded inputs against each other before plotting: lines that could not be parsed, signal and junctions
+// on sequences or positions the GTF does not annotate, unusual scores, duplicate rows and a reference that does
+// not match the selected sequence
+export function validateInputs(inputs: ValidationInputs): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    const regions = inputs.gtf ? new Map(inputs.gtf.regions.map(region => [region.seqid, region])) : null;
+    const gtfName = inputs.gtf?.fileName ?? "the GTF";
+
+    Object.entries(inputs.lineErrors).forEach(([input, lineErrors]) => {
+        if (lineErrors.length === 0) {
+            return;
+        }
+        issues.push({
+            severity: "error",
+            input: inputLabel(input, inputs),
+            trackId: inputs.signalTracks.some(track => track.id === input) ? input : null,
+            message: `Lines could not be parsed, the file was not loaded. ${lineErrors[0].message}`,
+            count: lineErrors.length,
+            lines: lineErrors.slice(0, MAX_REPORTED_LINES).map(error => error.line),
+        });
+    });
+
+    inputs.signalTracks
+        .filter(track => track.bedFile.status === 1)
+        .forEach(track => issues.push(...checkSignalTrack(track, regions, gtfName)));
+
+    if (inputs.junctions && regions) {
+        issues.push(...checkJunctions(inputs.junctions, regions, gtfName));
+    }
+    if (inputs.reference && inputs.selectedSeqid !== "") {
+        issues.push(...checkReference(inputs.reference, regions?.get(inputs.selectedSeqid), inputs.selectedSeqid));
+    }
+
+    const errors = issues.filter(issue => issue.severity === "error");
+    const warnings = issues.filter(issue => issue.severity === "warning");
+    return { issues: [...errors, ...warnings], errors: errors.length, warnings: warnings.length };
+}
+
+// Content of a report apart from the track names, to tell whether a report the user accepted still applies
+export function validationReportKey(report: ValidationReport): string {
+    return report.issues
+        .map(issue => [issue.severity, issue.trackId ?? issue.input, issue.message, issue.count, issue.lines.join(",")].join("\t"))
+        .join("\n");
+}
+
+function sameInputs(a: ValidationInputs, b: ValidationInputs): boolean {
+    return a.gtf === b.gtf && a.reference === b.reference && a.junctions === b.junctions && a.lineErrors === b.lineErrors
+        && a.selectedSeqid === b.selectedSeqid && a.signalTracks.length === b.signalTracks.length
+        && a.signalTracks.every((track, i) => {
+            const other = b.signalTracks[i];
+            return track.id === other.id && track.bedFile === other.bedFile && track.inputFacts === other.inputFacts;
+        });
+}
+
+// validateInputs for inputs that change often in other ways: the data is only checked again when a file, the
+// sequence or the set of tracks changes. Renamed tracks only relabel the issues.
+export function createValidationCache(): (inputs: ValidationInputs) => ValidationReport {
+    let previous: { inputs: ValidationInputs, report: ValidationReport } | null = null;
+    return inputs => {
+        if (!previous || !sameInputs(previous.inputs, inputs)) {
+            previous = { inputs, report: validateInputs(inputs) };
+            return previous.report;
+        }
+        const tracks = new Map(inputs.signalTracks.map(track => [track.id, track]));
+        return {
+            ...previous.report,
+            issues: previous.report.issues.map(issue => {
+                const track = issue.trackId !== null ? tracks.get(issue.trackId) : undefined;
+                return track ? { ...issue, input: trackLabel(track) } : issue;
+            }),
+        };
+    };
+}
+
+// "3 affected, lines 4, 9, 12" - the line numbers are cut off after MAX_REPORTED_LINES
+export function issueExtent(issue: ValidationIssue): string {
+    const parts: string[] = [];
+    if (issue.count > 1) {
+        parts.push(`${issue.count} affected`);
+    }
+    if (issue.lines.length > 0) {
+        const more = issue.count > issue.lines.length ? ", …" : "";
+        parts.push(`${issue.lines.length === 1 ? "line" : "lines"} ${issue.lines.join(", ")}${more}`);
+    }
+    return parts.join(", ");
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+    const extent = issueExtent(issue);
+    return `${issue.severity}: ${issue.input}: ${issue.message}${extent !== "" ? ` (${extent})` : ""}`;
+}
@@ -0,0 +1,81 @@
+import * as d3 from 'd3';
+
+export type YScaleType = 'linear' | 'log' | 'logit' | 'sqrt';
+export type YDomainMode = 'shared' | 'site'; // one domain for all zoom cells of a track, or one per cell
+
+// What the zoom cell plots and axes need from a y scale. d3's continuous scales fit it as is.
+export interface YScale {
+    (value: number): number;
+    domain(): number[];
+    range(): number[];
+    invert(value: number): number;
+    ticks(count?: number): number[];
+    tickFormat(count?: number, specifier?: string): (value: number) => string;
+    copy(): YScale;
+}
+
+// Scores are fractions, so log and logit scales stop this close to 0 (and 1)
+export const SCALE_EPSILON = 1e-3;
+
+const logitTicks = [0.001, 0.01, 0.05, 0.1, 0.25, 0.5, 0.75, 0.9, 0.95, 0.99, 0.999];
+
+function logit(value: number): number {
+    const p = Math.min(1 - SCALE_EPSILON, Math.max(SCALE_EPSILON, value));
+    return Math.log(p / (1 - p));
+}
+
+// Logit scale for fractions: spreads out values near 0 and near 1
+function scaleLogit(domain: [number, number], range: [number, number]): YScale {
+    const linear = d3.scaleLinear().domain(domain.map(logit)).range(range).clamp(true);
+    const scale = ((value: number) => linear(logit(value))) as YScale;
+    scale.domain = () => domain;
+    scale.range = () => range;
+    scale.invert = (value: number) => {
+        const x = linear.invert(value);
+        return 1 / (1 + Math.exp(-x));
+    };
+    scale.ticks = () => logitTicks.filter(tick => tick >= domain[0] && tick <= domain[1]);
+    scale.tickFormat = () => d3.format("~g");
+    scale.copy = () => scaleLogit(domain, range);
+    return scale;
+}
+
+// Build the y scale of a zoom cell. Log and logit domains are moved inside (0, 1) where needed. Values outside
+// the domain, e.g. above a fixed maximum, are drawn at its bounds.
+export function createYScale(type: YScaleType, domain: [number, number], range: [number, number]): YScale {
+    const [min, max] = domain;
+    switch (type) {
+        case "log": {
+            const low = Math.max(min, SCALE_EPSILON);
+            return d3.scaleLog().domain([low, Math.max(max, low * 10)]).range(range).clamp(true);
+        }
+        case "logit": {
+            const low = Math.max(min, SCALE_EPSILON);
+            return scaleLogit([low, Math.max(Math.min(max, 1 - SCALE_EPSILON), low)], range);
+        }
+        case "sqrt":
+            return d3.scaleSqrt().domain([Math.max(min, 0), max]).range(range).clamp(true);
+        default:
+            return d3.scaleLinear().domain([min, max]).range(range).clamp(true);
+    }
+}
+
+// Symmetric linear scale around 0 for differences between two conditions
+export function createDeltaScale(maxAbs: number, range: [number, number]): YScale {
+    const bound = maxAbs > 0 ? maxAbs : 1;
+    return d3.scaleLinear().domain([-bound, bound]).range(range).clamp(true);
+}
+
+export const yScaleLabels: { [type in YScaleType]: string } = {
+    linear: "Linear",
+    sqrt: "Square root",
+    log: "Log",
+    logit: "Logit",
+};
+
+// Domain of a zoom cell: the automatic upper bound unless fixed by the user, from 0 unless fixed as well
+export function yDomain(automaticMax: number, min: number | null, max: number | null): [number, number] {
+    const low = min ?? 0;
+    const high = max ?? automaticMax;
+    return [low, high > low ? high : low + 1];
+}